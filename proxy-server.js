@@ -4,6 +4,10 @@ const fetch = require('node-fetch');
 const FormData = require('form-data');
 const { Readable } = require('stream');
 const busboy = require('busboy');
+const dns = require('dns');
+const http = require('http');
+const https = require('https');
+const net = require('net');
 
 const app = express();
 
@@ -302,6 +306,144 @@ app.get('/proxy/fetch/:processId', async (req, res) => {
   }
 });
 
+// The image proxy fetches URLs given by any page (CORS is open), so it only
+// talks to public hosts: never loopback, private, link-local or reserved ones
+function isPublicIPv4(bytes) {
+  const [a, b, c] = bytes;
+  return !(a === 0 || a === 10 || a === 127 || a >= 224 || // Includes reserved 240/4 and broadcast
+    (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && (c === 0 || c === 2)) || // IETF protocol assignments, documentation
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) || // Benchmarking
+    (a === 198 && b === 51 && c === 100) ||
+    (a === 203 && b === 0 && c === 113));
+}
+
+// The 16 bytes of an IPv6 address, which may end in a dotted quad
+function ipv6Bytes(address) {
+  let text = address.split('%')[0].toLowerCase();
+  const quad = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (quad) {
+    const [a, b, c, d] = quad.slice(1).map(Number);
+    text = `${text.slice(0, quad.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const missing = tail === undefined ? 0 : 8 - headGroups.length - tailGroups.length;
+  const groups = [...headGroups, ...new Array(missing).fill('0'), ...tailGroups];
+
+  const bytes = [];
+  groups.forEach(group => {
+    const value = parseInt(group, 16);
+    bytes.push(value >> 8, value & 0xff);
+  });
+  return bytes;
+}
+
+function isPublicIPv6(bytes) {
+  const zeros = count => bytes.slice(0, count).every(byte => byte === 0);
+  // IPv4-compatible (::/96), IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96)
+  // addresses reach the IPv4 address in their last four bytes
+  if ((zeros(10) && ((bytes[10] === 0 && bytes[11] === 0) || (bytes[10] === 0xff && bytes[11] === 0xff))) ||
+      (bytes[0] === 0x00 && bytes[1] === 0x64 && bytes[2] === 0xff && bytes[3] === 0x9b &&
+        bytes.slice(4, 12).every(byte => byte === 0))) {
+    return isPublicIPv4(bytes.slice(12));
+  }
+
+  // Only global unicast (2000::/3), minus the special ranges inside it
+  const first = (bytes[0] << 8) | bytes[1];
+  const second = (bytes[2] << 8) | bytes[3];
+  return (first & 0xe000) === 0x2000 &&
+    !(first === 0x2001 && second < 0x0200) && // IETF protocol assignments, Teredo
+    !(first === 0x2001 && second === 0x0db8) && // Documentation
+    first !== 0x2002 && // 6to4, which embeds an IPv4 address
+    (first & 0xfff0) !== 0x3ff0; // Documentation 3fff::/20
+}
+
+function isPublicAddress(address) {
+  if (net.isIPv4(address)) return isPublicIPv4(address.split('.').map(Number));
+  if (net.isIPv6(address)) return isPublicIPv6(ipv6Bytes(address));
+  return false;
+}
+
+// DNS lookup that refuses non-public addresses. Used by the agents below, so
+// the address actually connected to is checked, not just an earlier lookup.
+function publicLookup(hostname, options, callback) {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) return callback(error);
+    const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+    if (!addresses.every(isPublicAddress)) {
+      return callback(new Error(`Refusing to connect to ${hostname}`));
+    }
+    callback(null, address, family);
+  });
+}
+
+const publicHttpAgent = new http.Agent({ lookup: publicLookup });
+const publicHttpsAgent = new https.Agent({ lookup: publicLookup });
+
+// http(s) URLs whose host is not a non-public IP literal (literals skip the lookup)
+function isAllowedImageURL(value) {
+  let parsed;
+  try {
+    parsed = new URL(value);
+  } catch (error) {
+    return false;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return false;
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  return !net.isIP(host) || isPublicAddress(host);
+}
+
+const MAX_IMAGE_REDIRECTS = 5;
+
+// Proxy route for images inserted by URL, which most hosts do not serve cross-origin
+app.get('/proxy/image', async (req, res) => {
+  const { url } = req.query;
+  if (typeof url !== 'string' || !isAllowedImageURL(url)) {
+    return res.status(400).json({ error: 'A public http or https image URL is required' });
+  }
+
+  try {
+    console.log(`Fetching image: ${url}`);
+
+    // Follow redirects by hand so every hop is checked
+    let target = url;
+    let response;
+    for (let hop = 0; ; hop++) {
+      response = await fetch(target, {
+        size: 20 * 1024 * 1024, // Refuse anything over 20 MB
+        redirect: 'manual',
+        agent: parsed => (parsed.protocol === 'https:' ? publicHttpsAgent : publicHttpAgent)
+      });
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) break;
+
+      target = new URL(location, target).toString();
+      if (hop >= MAX_IMAGE_REDIRECTS || !isAllowedImageURL(target)) {
+        throw new Error(`Refusing redirect to ${target}`);
+      }
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!response.ok || !contentType.startsWith('image/')) {
+      throw new Error(`Upstream returned ${response.status} (${contentType || 'no content type'})`);
+    }
+
+    res.set('Content-Type', contentType);
+    res.send(await response.buffer());
+  } catch (error) {
+    // Details stay in the server log; callers only learn that it failed
+    console.error('Error fetching image:', error);
+    res.status(502).json({ error: 'Could not fetch the image' });
+  }
+});
+
 // Start the server
 const PORT = process.env.PORT || 3000;
 app.listen(PORT, () => {
@@ -1,51 +1,33 @@
 // Make this file a module by adding an export
 export {};
 
-interface Point {
-    x: number;
-    y: number;
-}
-
-// Add interface for generated image data
-interface GeneratedImage {
-    id: string;
-    url: string;
-    width: number;
-    height: number;
-}
-
-// Add interface for draggable image
-interface DragImage {
-    url: string;
-    element: HTMLImageElement;
-    isDragging: boolean;
-    offsetX: number;
-    offsetY: number;
-}
+import { Command, HistoryManager } from './history.js';
+import { AttrsChange, AddNodesCommand, AttrsCommand, CompositeCommand, MoveNodesCommand, RemoveNodesCommand, attrsEqual, captureAttrs, capturePlacements } from './commands.js';
+import { PROJECT_FORMAT, PROJECT_FORMAT_VERSION, PROJECT_FILE_EXTENSION, ProjectFile, SerializedNode, createNodes, migrateProject, packImages, parseProject, serializeNode, unpackImages } from './project.js';
+import { DocumentStore, SessionState, StoredDocument } from './storage.js';
+import { DocumentBrowser } from './document-browser.js';
+import { RASTER_EXTENSIONS, RASTER_MIME_TYPES, RasterExportDialog, RasterExportOptions, ExportRegion, Rect, downloadDataURL, nodesBounds, renderRegion } from './raster-export.js';
+import { exportSVG, importSVG } from './svg.js';
+import { LayersPanel, createUserLayer, isLayerEditable, isLayerLocked, layerTitle, nextLayerTitle, userLayers } from './layers.js';
+import { ShapeStyle, StyleInspector, readStyle, styleAttrs, styleTargets } from './style-inspector.js';
+import { BRUSH_PRESETS, BrushPreset, StrokePoint, pointerPressure, simplifyPoints, smoothPoint, strokeOutline } from './brush.js';
+import { CropSession, croppedAttrs, maskClipFunc, maskPair, maskShape, maskedImage } from './image-crop.js';
+import { DEFAULT_ADJUSTMENTS, ImageAdjustments, ImageInspector, adjustmentAttrs, imageTargets, watchAdjustments } from './image-adjustments.js';
+import { PdfExportDialog, PdfExportOptions, createPdf, tilePages } from './pdf-export.js';
+import { CanvasSettings, DEFAULT_CANVAS_SETTINGS, DocumentSetupDialog, createArtboardLayer, updateArtboardLayer } from './document-setup.js';
+import { Minimap } from './minimap.js';
+import { DEFAULT_GRID_SETTINGS, GridPanel, GridSettings, GuideOrientation, Guides, RULER_SIZE, createGridLayer, drawRuler } from './grid.js';
+import { SnapResult, SnapTarget, SnapTargets, rectTargets, snapPoint, snapRect } from './snapping.js';
+import { Alignment, DistributeAxis, Offset, ZOrder, alignOffsets, distributeOffsets, reorderNodes, unionRect } from './arrange.js';
+import { PastedContent, dataURLToBlob, encodeNodes, readPasteEvent, readSystemClipboard, writeSystemClipboard } from './clipboard.js';
+import { blobToDataURL, chooseImageFiles, contentHash, fetchImageViaProxy, imageURL, isImageFile } from './image-import.js';
+import { ContextMenu, ContextMenuEntry, ContextMenuItem } from './context-menu.js';
+import { FlipAxis, TransformBox, TransformPanel, boxCenter, boxTransform, flipTransform, selectionBox, transformedAttrs } from './transform-panel.js';
+import { GeneratedImage } from './types.js';
 
-// Add interface for placed images on canvas
-interface PlacedImage {
-    id: string;
-    url: string;
+interface Point {
     x: number;
     y: number;
-    width: number;
-    height: number;
-    selected: boolean;
-    originalAspectRatio?: number; // Store original aspect ratio for resizing
-}
-
-// Add resize handle positions enum
-enum ResizeHandle {
-    None = 'none',
-    TopLeft = 'nw-resize',
-    TopRight = 'ne-resize',
-    BottomLeft = 'sw-resize',
-    BottomRight = 'se-resize',
-    Top = 'n-resize',
-    Right = 'e-resize',
-    Bottom = 's-resize',
-    Left = 'w-resize'
 }
 
 declare const html2canvas: any;
@@ -83,32 +65,91 @@ class DrawingApp {
     private thumbnailsContainer: HTMLElement;
     private generatedImages: GeneratedImage[] = [];
     private selectedImageIndex: number = -1;
-    private currentDragImage: DragImage | null = null;
-    private placedImages: PlacedImage[] = [];
-    private selectedImageId: string | null = null;
-    private isDraggingPlacedImage: boolean = false;
-    private dragOffsetX: number = 0;
-    private dragOffsetY: number = 0;
-    private imageCache: Map<string, HTMLImageElement> = new Map();
-    private isResizingImage: boolean = false;
-    private currentResizeHandle: ResizeHandle = ResizeHandle.None;
-    private resizeStartPoint: Point | null = null;
-    private resizeStartDimensions: { x: number, y: number, width: number, height: number } | null = null;
-    private readonly HANDLE_SIZE: number = 10; // Size of resize handles
+    private imageCache: Map<string, HTMLImageElement> = new Map(); // By content hash, or URL for remote images
+    private readonly PLACED_IMAGE_SIZE: number = 300; // Longest side of a newly placed generated image
+    private readonly THUMBNAIL_DRAG_TYPE: string = 'application/x-drawcraft-image';
+    private readonly MAX_IMPORT_SIZE: number = 2048; // Longest side of an imported bitmap, in pixels
     private _navigationEventsAttached: boolean = false;
 
     // Konva related properties
     private stage: any; // Konva.Stage
-    private backgroundLayer: any; // Konva.Layer - For regular canvas content
-    private shapeLayer: any; // Konva.Layer - For shapes
+    private activeLayer: any; // Konva.Layer - User layer that new shapes are added to
+    private uiLayer: any; // Konva.Layer - Overlay above the user layers for the transformer
     private activeShape: any = null; // Current shape being drawn
     private transformer: any = null; // Transformer for shapes
-    private drawingPoints: number[] = []; // Store points for pencil drawing
+    private strokePoints: StrokePoint[] = []; // Smoothed samples of the pencil stroke being drawn
+    private strokeTarget: StrokePoint | null = null; // Latest raw sample the smoothed stroke eases towards
+    private pointerPressure: number = 0.5; // Pressure when the current press started
+    private brushPreset: BrushPreset = 'pen';
+    private pencilSmoothing: number = 0.5; // 0 follows the pointer exactly
+    private readonly SIMPLIFY_TOLERANCE: number = 0.5; // Screen pixels a simplified stroke may deviate
+    private eraserMode: 'pixel' | 'object' = 'pixel';
+    private erasedNodes: any[] = []; // Shapes hidden by the object eraser until the stroke ends
+    private lastEraserPoint: Point | null = null; // Screen position the object eraser was last tested at
+    private polygonShape: any = null; // Polygon being built one vertex per click
+    private marquee: any = null; // Rubber-band selection rectangle
+    private marqueeStart: Point = { x: 0, y: 0 };
+    private marqueeAdditive: boolean = false;
+    private arrowEnds: 'end' | 'start' | 'both' = 'end';
+    private arrowHeadStyle: 'filled' | 'outline' = 'filled';
+    private shapeSides: number = 5; // Sides of regular polygons, points of stars
+    private cornerRadius: number = 0;
+    private readonly STAR_INNER_RATIO: number = 0.5;
+    private readonly MIN_ZOOM: number = 0.1;
+    private readonly MAX_ZOOM: number = 8;
+    private readonly ZOOM_STEP: number = 1.25; // Zoom in/out buttons and shortcuts
+    private pinch: { distance: number; center: Point } | null = null; // Two-finger gesture in progress
+    private fillEnabled: boolean = false;
+    private fillColor: string = '#ffffff';
+
+    // Undo/redo history
+    private history: HistoryManager = new HistoryManager(100);
+    private pendingEdit: { label: string, nodes: any[], before: Record<string, any>[] } | null = null;
+
+    // Autosave to IndexedDB
+    private documentId: string = this.createDocumentId();
+    private documentStore: DocumentStore = new DocumentStore();
+    private autosaveEnabled: boolean = false;
+    private autosaveDirty: boolean = false;
+    private autosaveTimer: number | null = null;
+    private readonly AUTOSAVE_DELAY: number = 2000; // Save this long after the last change
+    private readonly AUTOSAVE_INTERVAL: number = 30000; // Periodic safety net
+    private readonly MAX_RECENT_DOCUMENTS: number = 8;
+    private readonly THUMBNAIL_SIZE: number = 200;
+    private documentBrowser: DocumentBrowser | null = null;
+    private renameTargetId: string | null = null;
+
+    // Layers panel
+    private layersPanel: LayersPanel | null = null;
+
+    // Style inspector and the style held by copy style
+    private styleInspector: StyleInspector | null = null;
+    private imageInspector: ImageInspector | null = null;
+    private cropSession: CropSession | null = null; // Crop handles shown after double-clicking an image
+    private transformPanel: TransformPanel | null = null;
+    private minimap: Minimap | null = null;
+    private contextMenu: ContextMenu | null = null;
+    private clipboard: SerializedNode[] | null = null; // Nodes held by copy or cut
+    private pasteCount: number = 0; // Pastes since the last copy, each one offset further
+    private readonly DUPLICATE_OFFSET: number = 10;
+    private alignToCanvas: boolean = false; // Align against the canvas instead of the selection bounds
+    private copiedStyle: ShapeStyle | null = null;
 
     // Add properties for canvas navigation
     private isNavigationMode: boolean = false;
-    private virtualCanvasWidth: number = 3000;
-    private virtualCanvasHeight: number = 3000;
+    private canvasSettings: CanvasSettings = { ...DEFAULT_CANVAS_SETTINGS };
+    private artboardLayer: any; // Page outline and background, below the user layers
+    private gridLayer: any; // Background grid, between the artboard and the user layers
+    private gridSettings: GridSettings = { ...DEFAULT_GRID_SETTINGS };
+    private guides: Guides | null = null;
+    private snapLines: any; // Smart guides shown while something snaps
+    private snapTargetsCache: SnapTargets | null = null; // Targets for the drag, resize or shape in progress
+    private readonly SNAP_DISTANCE: number = 6; // Screen pixels
+    private readonly ALL_ANCHORS: string[] = [
+        'top-left', 'top-center', 'top-right', 'middle-right',
+        'bottom-right', 'bottom-center', 'bottom-left', 'middle-left'
+    ];
+    private readonly CORNER_ANCHORS: string[] = ['top-left', 'top-right', 'bottom-right', 'bottom-left'];
 
     constructor() {
         this.canvas = document.getElementById('canvas') as HTMLCanvasElement;
@@ -128,6 +169,16 @@ class DrawingApp {
 
         this.initializeCanvas();
         this.initializeKonva();
+        this.initializeHistory();
+        this.initializeLayers();
+        this.initializeStyleInspector();
+        this.initializeImageInspector();
+        this.initializeTransformPanel();
+        this.initializeZoom();
+        this.initializeMinimap();
+        this.initializeGrid();
+        this.initializeContextMenu();
+        this.initializeClipboard();
         this.addEventListeners();
         this.initializeDocumentName();
         this.initializeMenu();
@@ -135,13 +186,12 @@ class DrawingApp {
         this.initializeTextToImage();
         this.initializeReimagine();
         this.initializeTooltips();
-        this.initializeDragEvents();
+        this.initializeImageDrop();
 
         // Add key event listener for delete functionality
         window.addEventListener('keydown', this.handleKeyDown.bind(this));
-        
-        // Initialize delete button for selected images
-        this.initializeDeleteButton();
+
+        this.initializeAutosave();
     }
 
     private initializeKonva(): void {
@@ -167,21 +217,41 @@ class DrawingApp {
             draggable: false // Start in drawing mode, not navigation mode
         });
 
-        // Create layers
-        this.backgroundLayer = new Konva.Layer();
-        this.shapeLayer = new Konva.Layer();
+        // Create the first user layer and the overlay that stays on top of it
+        this.artboardLayer = createArtboardLayer();
+        this.gridLayer = createGridLayer(
+            () => this.gridSettings,
+            () => this.exportRegionRect('viewport')!,
+            () => this.stage.scaleX()
+        );
+        this.activeLayer = createUserLayer(this.createLayerId(), 'Layer 1');
+        this.uiLayer = new Konva.Layer();
 
         // Add layers to stage
-        this.stage.add(this.backgroundLayer);
-        this.stage.add(this.shapeLayer);
+        this.stage.add(this.artboardLayer);
+        this.stage.add(this.gridLayer);
+        this.stage.add(this.activeLayer);
+        this.stage.add(this.uiLayer);
+        this.applyCanvasSettings(this.canvasSettings);
 
         // Initialize transformer for resizing/moving shapes
         this.transformer = new Konva.Transformer({
             nodes: [],
-            enabledAnchors: ['top-left', 'top-right', 'bottom-left', 'bottom-right'],
-            rotateEnabled: false
+            enabledAnchors: this.ALL_ANCHORS,
+            rotateEnabled: true,
+            // Rotation sticks to multiples of 15°
+            rotationSnaps: Array.from({ length: 24 }, (_, i) => i * 15),
+            rotationSnapTolerance: 5,
+            anchorDragBoundFunc: (oldPos: Point, newPos: Point) => this.snapAnchor(newPos)
         });
-        this.shapeLayer.add(this.transformer);
+
+        // Guides and smart guides sit below the transformer in the overlay
+        const guidesGroup = new Konva.Group({ name: 'guides' });
+        this.snapLines = new Konva.Group({ name: 'snap-lines', listening: false });
+        this.uiLayer.add(guidesGroup);
+        this.uiLayer.add(this.snapLines);
+        this.uiLayer.add(this.transformer);
+        this.guides = new Guides(guidesGroup, () => this.scheduleAutosave(), guide => this.isGuideOverRuler(guide));
         
         // Add boundary limit for dragging the canvas
         this.stage.on('dragmove', () => {
@@ -192,360 +262,2663 @@ class DrawingApp {
         this._navigationEventsAttached = false;
     }
 
-    private initializeKonvaTextInput(): void {
-        // We'll handle text directly with Konva.Text instead of HTML contenteditable
-        this.textInput.style.display = 'none';
-        this.textInputContainer.style.display = 'none';
-    }
+    private initializeHistory(): void {
+        // Record moves made by dragging shapes (ignore stage panning)
+        this.stage.on('dragstart', (e: any) => {
+            if (e.target === this.stage || e.target === this.transformer || e.target.hasName('guide')) return;
+            const selected = this.transformer.nodes();
+            const nodes = selected.includes(e.target) ? selected : [e.target];
+            this.beginNodeEdit('Move', nodes);
+        });
+        this.stage.on('dragend', (e: any) => {
+            if (e.target === this.stage || e.target === this.transformer || e.target.hasName('guide')) return;
+            this.commitNodeEdit();
+        });
 
-    private initializeDeleteButton(): void {
-        // Create a floating delete button that appears when an image is selected
-        const deleteButton = document.createElement('button');
-        deleteButton.id = 'delete-image-btn';
-        deleteButton.innerHTML = '🗑️';
-        deleteButton.title = 'Delete selected image';
-        deleteButton.className = 'delete-image-btn';
-        deleteButton.style.display = 'none';
-        
-        // Add to canvas container
-        const container = document.getElementById('canvas-container');
-        if (container) {
-            container.appendChild(deleteButton);
-            
-            // Add click event
-            deleteButton.addEventListener('click', () => {
-                this.deleteSelectedImage();
-            });
+        // Record resizes made with the transformer
+        this.transformer.on('transformstart', () => {
+            this.beginNodeEdit('Resize', this.transformer.nodes());
+        });
+        this.transformer.on('transformend', () => {
+            this.commitNodeEdit();
+        });
+
+        // Toolbar buttons
+        const undoButton = document.getElementById('undo') as HTMLButtonElement;
+        const redoButton = document.getElementById('redo') as HTMLButtonElement;
+        if (undoButton && redoButton) {
+            undoButton.addEventListener('click', () => this.undo());
+            redoButton.addEventListener('click', () => this.redo());
         }
+
+        this.history.onChange(() => {
+            // Undo/redo may have removed nodes that are still selected
+            this.pruneSelection();
+
+            if (undoButton && redoButton) {
+                undoButton.disabled = !this.history.canUndo();
+                redoButton.disabled = !this.history.canRedo();
+                const undoLabel = this.history.undoLabel();
+                const redoLabel = this.history.redoLabel();
+                undoButton.dataset.tooltip = undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Undo (Ctrl+Z)';
+                redoButton.dataset.tooltip = redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)';
+            }
+        });
     }
 
-    private initializeDocumentName(): void {
-        const documentNameElement = document.getElementById('document-name');
-        if (!documentNameElement) {
-            console.error('Document name element not found');
-            return;
-        }
+    // Snapshot nodes before an interactive edit (drag, transform, text editing)
+    private beginNodeEdit(label: string, nodes: any[]): void {
+        this.pendingEdit = {
+            label,
+            nodes: [...nodes],
+            before: nodes.map(node => captureAttrs(node))
+        };
+    }
 
-        // Initialize modal elements
-        const modal = document.getElementById('rename-modal') as HTMLElement;
-        const nameInput = document.getElementById('document-name-input') as HTMLInputElement;
-        const confirmButton = document.getElementById('rename-confirm') as HTMLButtonElement;
-        const cancelButton = document.getElementById('rename-cancel') as HTMLButtonElement;
-        const closeButton = document.querySelector('.close-modal') as HTMLElement;
+    // Compare against the snapshot and record whatever actually changed
+    private commitNodeEdit(): void {
+        if (!this.pendingEdit) return;
 
-        if (!modal || !nameInput || !confirmButton || !cancelButton || !closeButton) {
-            console.error('Modal elements not found');
-            return;
+        const { label, nodes, before } = this.pendingEdit;
+        this.pendingEdit = null;
+
+        const changes: AttrsChange[] = [];
+        nodes.forEach((node, i) => {
+            const after = captureAttrs(node);
+            if (!attrsEqual(before[i], after)) {
+                changes.push({ node, before: before[i], after });
+            }
+        });
+
+        if (changes.length > 0) {
+            this.history.record(new AttrsCommand(label, changes));
         }
+    }
 
-        // Set initial document name
-        documentNameElement.textContent = this.documentName;
+    private undo(): void {
+        this.finishCrop(false);
+        this.history.undo();
+    }
 
-        // Show modal when document name is clicked
-        documentNameElement.addEventListener('click', () => {
-            nameInput.value = this.documentName;
-            modal.style.display = 'flex';
-            nameInput.focus();
-            nameInput.select();
-        });
+    private redo(): void {
+        this.finishCrop(false);
+        this.history.redo();
+    }
 
-        // Handle rename confirmation
-        const renameDocument = () => {
-            const newName = nameInput.value.trim();
-            if (newName) {
-                this.documentName = newName;
-                documentNameElement.textContent = newName;
-            }
-            modal.style.display = 'none';
-        };
+    // The top-level node (a direct child of a user layer) that owns a shape,
+    // or null if it cannot be selected. Locked nodes only count when asked for.
+    private selectableNode(shape: any, includeLocked: boolean = false): any {
+        const layers = userLayers(this.stage);
+        let node = shape;
+        while (node.getParent() && !layers.includes(node.getParent())) {
+            node = node.getParent();
+        }
+        if (!node.getParent() || !isLayerEditable(node.getParent())) return null;
+        // Eraser strokes are part of the layer's pixels, not objects
+        if (node.globalCompositeOperation() === 'destination-out') return null;
+        if (!includeLocked && this.isNodeLocked(node)) return null;
+        return node;
+    }
 
-        // Attach event listeners
-        confirmButton.addEventListener('click', renameDocument);
-        
-        // Close modal on cancel
-        cancelButton.addEventListener('click', () => {
-            modal.style.display = 'none';
-        });
-        
-        // Close modal with X button
-        closeButton.addEventListener('click', () => {
-            modal.style.display = 'none';
+    // Every selectable node on visible, unlocked layers
+    private selectAll(): void {
+        const nodes: any[] = [];
+        userLayers(this.stage)
+            .filter(layer => isLayerEditable(layer))
+            .forEach(layer => {
+                layer.getChildren().forEach((node: any) => {
+                    if (this.selectableNode(node)) nodes.push(node);
+                });
+            });
+        this.select(nodes);
+    }
+
+    private startMarquee(pos: Point, additive: boolean): void {
+        this.marqueeStart = pos;
+        this.marqueeAdditive = additive;
+        this.marquee = new Konva.Rect({
+            x: pos.x,
+            y: pos.y,
+            width: 0,
+            height: 0,
+            fill: 'rgba(157, 125, 177, 0.15)',
+            stroke: '#9d7db1',
+            strokeWidth: 1,
+            dash: [4, 4],
+            strokeScaleEnabled: false,
+            listening: false
         });
-        
-        // Handle Enter key in input
-        nameInput.addEventListener('keydown', (e: KeyboardEvent) => {
-            if (e.key === 'Enter') {
-                renameDocument();
-            }
+        this.uiLayer.add(this.marquee);
+    }
+
+    private updateMarquee(pos: Point): void {
+        this.marquee.setAttrs({
+            x: Math.min(pos.x, this.marqueeStart.x),
+            y: Math.min(pos.y, this.marqueeStart.y),
+            width: Math.abs(pos.x - this.marqueeStart.x),
+            height: Math.abs(pos.y - this.marqueeStart.y)
         });
+        this.uiLayer.batchDraw();
     }
 
-    private initializeCanvas(): void {
-        const updateCanvasSize = () => {
-            const container = document.getElementById('canvas-container');
-            if (!container) return;
-            
-            const rect = container.getBoundingClientRect();
-            this.canvas.width = rect.width;
-            this.canvas.height = rect.height;
-            
-            // If Konva stage is initialized, update its size too
-            if (this.stage) {
-                this.stage.width(rect.width);
-                this.stage.height(rect.height);
-                
-                // Center the view initially in the virtual canvas
-                if (!this.stage.x() && !this.stage.y()) {
-                    const offsetX = (this.virtualCanvasWidth - rect.width) / 2;
-                    const offsetY = (this.virtualCanvasHeight - rect.height) / 2;
-                    this.stage.position({
-                        x: -offsetX,
-                        y: -offsetY
+    // Select every node the marquee touches; Shift adds to the current selection
+    private finishMarquee(): void {
+        const box = this.marquee.getClientRect();
+        this.marquee.destroy();
+        this.marquee = null;
+
+        const selected = this.marqueeAdditive ? [...this.transformer.nodes()] : [];
+        if (box.width > 0 || box.height > 0) {
+            userLayers(this.stage)
+                .filter(layer => isLayerEditable(layer))
+                .forEach(layer => {
+                    layer.getChildren().forEach((node: any) => {
+                        if (!this.selectableNode(node) || selected.includes(node) || !node.isVisible()) return;
+                        if (Konva.Util.haveIntersection(box, node.getClientRect())) {
+                            selected.push(node);
+                        }
                     });
-                }
-            }
-        };
-        
-        // Set canvas size initially
-        updateCanvasSize();
-        
-        // Update canvas size when window is resized
-        window.addEventListener('resize', updateCanvasSize);
+                });
+        }
+        this.select(selected);
     }
 
-    private addEventListeners(): void {
-        // Tool buttons
-        const toolButtons = document.querySelectorAll('.tool-btn');
-        toolButtons.forEach(button => {
-            button.addEventListener('click', () => {
-                toolButtons.forEach(btn => btn.classList.remove('active'));
-                button.classList.add('active');
-                this.currentTool = button.id;
-                
-                // Toggle navigation mode when navigation tool is selected
-                if (button.id === 'navigation') {
-                    this.toggleNavigationMode(true);
-                } else {
-                    this.toggleNavigationMode(false);
-                    
-                    // Deselect any selected shapes when changing tools
-                    if (this.transformer) {
-                        this.transformer.nodes([]);
-                        this.shapeLayer.draw();
-                    }
-                }
-            });
-        });
+    private groupSelection(): void {
+        const nodes = this.transformer.nodes();
+        if (nodes.length < 2) return;
 
-        // Color and size controls
-        const colorInput = document.getElementById('color') as HTMLInputElement;
-        const sizeInput = document.getElementById('size') as HTMLInputElement;
-        const sizeValue = document.getElementById('size-value') as HTMLSpanElement;
+        this.select([this.groupNodes('Group', nodes)]);
+    }
 
-        colorInput.addEventListener('input', e => {
-            this.currentColor = (e.target as HTMLInputElement).value;
-        });
+    // Clip the selected image with the selected shape. The shape is kept,
+    // hidden, in a group with the image so the mask can be released later.
+    private maskSelection(): void {
+        const pair = maskPair(this.transformer.nodes());
+        if (!pair) return;
 
-        sizeInput.addEventListener('input', e => {
-            this.currentSize = parseInt((e.target as HTMLInputElement).value);
-            sizeValue.textContent = this.currentSize.toString();
-            this.textInput.style.fontSize = `${this.currentSize}px`;
-        });
+        const group = this.groupNodes('Mask image', [pair.image, pair.mask], node =>
+            node === pair.mask ? { mask: true, visible: false } : {});
+        this.hydrateNode(group);
+        group.getLayer().batchDraw();
+        this.select([group]);
+    }
 
-        // Clear button
-        const clearButton = document.getElementById('clear');
-        if (clearButton) {
-            clearButton.addEventListener('click', () => this.clearCanvas());
+    // Show crop handles over an image; the image itself is hidden until the crop is applied
+    private startCrop(image: any): void {
+        if (!image.image() || !this.canEditActiveLayer()) return;
+
+        this.select([]);
+        image.hide();
+        image.getLayer().batchDraw();
+        this.cropSession = new CropSession(image, this.uiLayer);
+    }
+
+    // Leave crop mode, recording the new crop as one undo step when applied
+    private finishCrop(apply: boolean): void {
+        const session = this.cropSession;
+        if (!session) return;
+
+        this.cropSession = null;
+        const rect = session.rect();
+        session.destroy();
+
+        const image = session.node;
+        image.show();
+        if (apply) {
+            this.beginNodeEdit('Crop image', [image]);
+            image.setAttrs(croppedAttrs(image, rect));
+            this.commitNodeEdit();
         }
+        image.getLayer().batchDraw();
+        this.select([this.selectableNode(image) || image]);
+    }
 
-        // Add double-click handler for text creation
-        this.stage.on('dblclick', (e: any) => {
-            // Only create new text if:
-            // 1. Text tool is selected
-            // 2. User clicked on empty space (not on existing text or other shape)
-            // 3. Not in navigation mode
-            if (this.currentTool === 'text' && e.target === this.stage && !this.isNavigationMode) {
-                this.createText(e);
-            }
+    // Wrap nodes in a Konva.Group placed where the topmost of them was.
+    // `childAttrs` adds attrs to each node as it moves into the group.
+    private groupNodes(label: string, nodes: any[], childAttrs: (node: any) => Record<string, any> = () => ({})): any {
+        const ordered = [...nodes].sort((a: any, b: any) => a.getAbsoluteZIndex() - b.getAbsoluteZIndex());
+        const top = ordered[ordered.length - 1];
+        const layer = top.getParent();
+        // Children of the layer that stay behind and sit below the group
+        const below = layer.getChildren()
+            .filter((child: any) => !nodes.includes(child) && child.zIndex() < top.zIndex()).length;
+
+        const group = new Konva.Group({ draggable: true, name: 'group' });
+        const before = capturePlacements(ordered);
+        const after = ordered.map((node: any, index: number) => ({ node, parent: group, index }));
+        // Children move with the group instead of on their own
+        const changes: AttrsChange[] = ordered.map((node: any) => {
+            const attrs = captureAttrs(node);
+            const draggable = { ...attrs, ...childAttrs(node) };
+            delete draggable.draggable;
+            return { node, before: attrs, after: draggable };
         });
 
+        this.history.execute(new CompositeCommand(label, [
+            new MoveNodesCommand(label, before, after),
+            new AddNodesCommand(label, [{ node: group, parent: layer, index: below }]),
+            new AttrsCommand(label, changes)
+        ]));
+        return group;
+    }
 
+    // Move group children back to the group's parent, keeping where they appear on screen.
+    // Ungrouping a masked image releases the mask, which shows the shape again.
+    private ungroupSelection(): void {
+        const groups = this.transformer.nodes().filter((node: any) => node.getClassName() === 'Group');
+        if (groups.length === 0) return;
 
-        // Canvas events for drawing and shape creation
-        this.stage.on('mousedown touchstart', (e: any) => {
-            // Prevent default only for touch events to avoid scrolling issues
-            if (e.evt.type.includes('touch')) {
-                e.evt.preventDefault();
-            }
-            
-            // Skip if in navigation mode - allow dragging
-            if (this.isNavigationMode) {
-                return;
-            }
-            
-            // Check if we clicked on an existing shape
-            const clickedOnShape = e.target !== this.stage;
-            if (clickedOnShape) {
-                // If we clicked on a shape, handle selection
-                if (e.target.hasName('shape') || e.target.hasName('text')) {
-                    // Get pointer position
-                    const pos = this.stage.getPointerPosition();
-                    
-                    // Use Konva's getIntersection which returns the topmost shape
-                    // This correctly handles Z-index and returns the shape that should receive the click
-                    const topShape = this.stage.getIntersection(pos);
-                    
-                    if (topShape && (topShape.hasName('shape') || topShape.hasName('text'))) {
-                        this.transformer.nodes([topShape]);
-                        this.shapeLayer.draw();
-                    } else {
-                        // Fallback to original behavior
-                        this.transformer.nodes([e.target]);
-                        this.shapeLayer.draw();
-                    }
+        const commands: Command[] = [];
+        const released: any[] = [];
+        groups.forEach((group: any) => {
+            const children = [...group.getChildren()];
+            const groupTransform = group.getTransform();
+
+            const changes: AttrsChange[] = children.map((child: any) => {
+                // Bake the group transform into the child
+                const before = captureAttrs(child);
+                const after: Record<string, any> = { ...before, ...transformedAttrs(child, groupTransform), draggable: true };
+                if (group.opacity() !== 1) {
+                    after.opacity = child.opacity() * group.opacity();
                 }
-            } else {
-                // We clicked on empty canvas, start a new shape or drawing
-                this.startDrawing(e);
-            }
-        });
+                if (child.getAttr('mask')) {
+                    delete after.mask;
+                    delete after.visible;
+                }
+                return { node: child, before, after };
+            });
 
-        this.stage.on('mousemove touchmove', (e: any) => {
-            if (e.evt.type.includes('touch')) {
-                e.evt.preventDefault();
-            }
-            
-            // Skip if in navigation mode
-            if (!this.isNavigationMode) {
-                this.draw(e);
-            }
+            const parent = group.getParent();
+            const index = group.zIndex();
+            commands.push(
+                new AttrsCommand('Ungroup', changes),
+                new MoveNodesCommand('Ungroup', capturePlacements(children),
+                    children.map((node: any, i: number) => ({ node, parent, index: index + 1 + i }))),
+                new RemoveNodesCommand('Ungroup', [group])
+            );
+            released.push(...children);
         });
 
-        this.stage.on('mouseup touchend', (e: any) => {
-            // If not in navigation mode, handle drawing stop
-            if (!this.isNavigationMode) {
-                this.stopDrawing(e);
-            }
-        });
+        this.history.execute(new CompositeCommand('Ungroup', commands));
+        this.select(released);
+    }
 
-        // Disable context menu on stage
-        this.stage.on('contextmenu', (e: any) => {
-            e.evt.preventDefault();
-        });
+    // Restack the selection within its layer(s)
+    private reorderSelection(order: ZOrder): void {
+        const nodes = this.transformer.nodes();
+        if (nodes.length === 0) return;
+
+        const labels: Record<ZOrder, string> = {
+            front: 'Bring to front',
+            forward: 'Bring forward',
+            backward: 'Send backward',
+            back: 'Send to back'
+        };
+        const before = capturePlacements(nodes);
+        reorderNodes(nodes, order);
+        const after = capturePlacements(nodes);
+        if (after.every((placement, i) => placement.index === before[i].index)) return;
+
+        this.history.record(new MoveNodesCommand(labels[order], before, after));
+        nodes.forEach((node: any) => node.getLayer().batchDraw());
+        this.uiLayer.batchDraw();
     }
 
-    private initializeMenu(): void {
-        const menuButton = document.getElementById('menu-button');
-        const menuDropdown = document.getElementById('menu-dropdown');
-        const savePdfButton = document.getElementById('save-pdf');
+    // Line up the selection with its own bounds, or with the canvas when aligning
+    // to the canvas or when a single node is selected
+    private alignSelection(alignment: Alignment): void {
+        const nodes = this.transformer.nodes();
+        if (nodes.length === 0) return;
 
-        if (!menuButton || !menuDropdown || !savePdfButton) {
-            console.error('Menu elements not found');
-            return;
-        }
+        const rects = nodes.map((node: any) => node.getClientRect({ relativeTo: node.getLayer() }));
+        const reference = this.alignToCanvas || nodes.length === 1 ? this.alignmentCanvasRect() : unionRect(rects);
+        this.moveSelectionBy('Align', nodes, alignOffsets(rects, reference, alignment));
+    }
 
-        // Toggle menu dropdown
-        menuButton.addEventListener('click', (e) => {
-            e.stopPropagation(); // Prevent event from bubbling to document
-            menuDropdown.classList.toggle('active');
-            
-            // Log for debugging
-            console.log('Menu clicked, dropdown is now:', menuDropdown.classList.contains('active') ? 'visible' : 'hidden');
+    // Even spacing between the selected nodes; the outermost ones stay put
+    private distributeSelection(axis: DistributeAxis): void {
+        const nodes = this.transformer.nodes();
+        if (nodes.length < 3) return;
+
+        const rects = nodes.map((node: any) => node.getClientRect({ relativeTo: node.getLayer() }));
+        this.moveSelectionBy('Distribute', nodes, distributeOffsets(rects, axis));
+    }
+
+    // The artboard, or on an infinite canvas the part of it on screen
+    private alignmentCanvasRect(): Rect {
+        return this.canvasSettings.mode === 'artboard'
+            ? this.exportRegionRect('canvas')!
+            : this.exportRegionRect('viewport')!;
+    }
+
+    private moveSelectionBy(label: string, nodes: any[], offsets: Offset[]): void {
+        this.beginNodeEdit(label, nodes);
+        nodes.forEach((node, i) => {
+            node.position({ x: node.x() + offsets[i].dx, y: node.y() + offsets[i].dy });
         });
+        this.commitNodeEdit();
+        this.transformer.forceUpdate();
+        nodes.forEach(node => node.getLayer().batchDraw());
+        this.uiLayer.batchDraw();
+    }
 
-        // Close menu when clicking outside
-        document.addEventListener('click', (e) => {
-            if (!menuButton.contains(e.target as Node) && !menuDropdown.contains(e.target as Node)) {
-                menuDropdown.classList.remove('active');
+    private initializeClipboard(): void {
+        // Ctrl+V arrives as a paste event, which is the only way to read the
+        // system clipboard without asking for permission
+        document.addEventListener('paste', (e: ClipboardEvent) => {
+            const target = e.target as HTMLElement;
+            const isEditingText = document.querySelector('textarea') !== null;
+            if (!e.clipboardData || isEditingText ||
+                (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable))) {
+                return;
             }
-        });
+            e.preventDefault();
 
-        // Handle save as PDF
-        savePdfButton.addEventListener('click', (e) => {
-            e.stopPropagation(); // Prevent event from bubbling
-            console.log('Save as PDF clicked');
-            this.exportToPDF();
-            menuDropdown.classList.remove('active');
+            this.pasteContent(readPasteEvent(e.clipboardData), null);
         });
     }
 
-    private exportToPDF(): void {
-        console.log('Exporting to PDF...');
-        
-        if (!window.jspdf) {
-            console.error('jsPDF not loaded');
-            alert('PDF export library not loaded. Please try again later.');
+    // Keep copies of the selection, lowest first so pasting restores their stacking,
+    // and put them on the system clipboard along with a PNG for other apps
+    private copySelection(): void {
+        const nodes = [...this.transformer.nodes()]
+            .sort((a: any, b: any) => a.getAbsoluteZIndex() - b.getAbsoluteZIndex());
+        if (nodes.length === 0) return;
+
+        this.clipboard = nodes.map((node: any) => serializeNode(node));
+        this.pasteCount = 0;
+
+        writeSystemClipboard(encodeNodes(this.clipboard), this.nodesPNG(nodes)).catch(error => {
+            console.warn('Could not write to the system clipboard:', error);
+        });
+    }
+
+    private cutSelection(): void {
+        this.copySelection();
+        // The first paste after a cut goes back where the nodes were
+        this.pasteCount = -1;
+        this.deleteSelection('Cut');
+    }
+
+    // Paste from the context menu, which has to ask the browser for the clipboard
+    private async pasteFromMenu(at: Point | null): Promise<void> {
+        let content: PastedContent | null = null;
+        try {
+            content = await readSystemClipboard();
+        } catch (error) {
+            // Permission refused or not supported; what we copied ourselves still pastes
+            console.warn('Could not read the system clipboard:', error);
+        }
+        this.pasteContent(content, at);
+    }
+
+    // Paste onto the active layer. Copied nodes land a little further from the
+    // originals on each repeat, or with their top-left corner at `at`; images
+    // are centred on `at` or the view.
+    private async pasteContent(content: PastedContent | null, at: Point | null): Promise<void> {
+        if (content && content.kind !== 'nodes') {
+            const view = this.exportRegionRect('viewport')!;
+            const center = at || { x: view.x + view.width / 2, y: view.y + view.height / 2 };
+            if (content.kind === 'image') {
+                await this.insertImageFile(content.image, center, 'Paste image');
+            } else {
+                await this.insertImageURL(content.url, center, 'Paste image');
+            }
+            return;
+        }
+
+        // Nodes copied in another tab or window replace the ones we hold
+        if (content && (!this.clipboard || encodeNodes(content.nodes) !== encodeNodes(this.clipboard))) {
+            this.clipboard = content.nodes;
+            this.pasteCount = 0;
+        }
+        if (!this.clipboard || !this.canEditActiveLayer()) return;
+
+        const layer = this.activeLayer;
+        if (at) {
+            await this.addCopies('Paste', this.clipboard, () => layer, (copies: any[]) => {
+                const bounds = unionRect(copies.map((node: any) => node.getClientRect()));
+                return { dx: at.x - bounds.x, dy: at.y - bounds.y };
+            });
+            return;
+        }
+
+        this.pasteCount++;
+        const offset = this.pasteCount * this.DUPLICATE_OFFSET;
+        await this.addCopies('Paste', this.clipboard, () => layer, () => ({ dx: offset, dy: offset }));
+    }
+
+    // Add an image centred on a point, scaled down to fit in the view (or in
+    // `maxSize` on its longest side) and return the new node
+    private insertImage(src: string, center: Point, label: string, maxSize: number = Infinity): Promise<any> {
+        return this.insertLoadedImage(() => this.loadImage(src), center, label, maxSize);
+    }
+
+    // Add an image file, scaled down first if it is very large
+    private insertImageFile(file: Blob, center: Point, label: string): Promise<any> {
+        return this.insertLoadedImage(async () => this.cachedImage(await this.downscaleImage(file)), center, label);
+    }
+
+    // Add the image at a URL on another site, fetched through the proxy
+    private insertImageURL(url: string, center: Point, label: string): Promise<any> {
+        return this.insertLoadedImage(async () => {
+            const image = await fetchImageViaProxy(url);
+            return this.cachedImage(await this.downscaleImage(image));
+        }, center, label);
+    }
+
+    private async insertLoadedImage(load: () => Promise<HTMLImageElement>, center: Point, label: string, maxSize: number = Infinity): Promise<any> {
+        if (!this.canEditActiveLayer()) return null;
+
+        try {
+            const img = await load();
+
+            const view = this.exportRegionRect('viewport')!;
+            // SVGs without a size of their own report zero
+            const naturalWidth = img.naturalWidth || this.PLACED_IMAGE_SIZE;
+            const naturalHeight = img.naturalHeight || this.PLACED_IMAGE_SIZE;
+            const scale = Math.min(1, (view.width * 0.8) / naturalWidth, (view.height * 0.8) / naturalHeight,
+                maxSize / Math.max(naturalWidth, naturalHeight));
+            const width = naturalWidth * scale;
+            const height = naturalHeight * scale;
+
+            const node = new Konva.Image({
+                image: img,
+                imageSrc: img.src,
+                x: center.x - width / 2,
+                y: center.y - height / 2,
+                width,
+                height,
+                draggable: true,
+                name: 'shape'
+            });
+            this.hydrateNode(node);
+            this.history.execute(new AddNodesCommand(label, [{
+                node,
+                parent: this.activeLayer,
+                index: this.activeLayer.getChildren().length
+            }]));
+            this.select([node]);
+            return node;
+        } catch (error) {
+            console.error('Error inserting image:', error);
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            alert(`Failed to insert the image: ${message}`);
+            return null;
+        }
+    }
+
+    // Load an image once and share the element between every node that shows it.
+    // Embedded (data URL) images are matched by content, so the same picture
+    // added twice is only decoded and stored once.
+    private async loadImage(src: string): Promise<HTMLImageElement> {
+        if (src.startsWith('data:')) {
+            return this.cachedImage(dataURLToBlob(src));
+        }
+
+        const cached = this.imageCache.get(src);
+        if (cached) return cached;
+        const img = await this.decodeImage(src);
+        this.imageCache.set(src, img);
+        return img;
+    }
+
+    private async cachedImage(image: Blob): Promise<HTMLImageElement> {
+        const hash = await contentHash(image);
+        const cached = this.imageCache.get(hash);
+        if (cached) return cached;
+
+        const img = await this.decodeImage(await blobToDataURL(image));
+        this.imageCache.set(hash, img);
+        return img;
+    }
+
+    private decodeImage(src: string): Promise<HTMLImageElement> {
+        return new Promise((resolve, reject) => {
+            const img = new Image();
+            img.onload = () => resolve(img);
+            img.onerror = () => reject(new Error('The image could not be read'));
+            img.src = src;
+        });
+    }
+
+    // Very large bitmaps are scaled down before they are embedded in the document
+    private downscaleImage(image: Blob): Promise<Blob> {
+        if (image.type === 'image/svg+xml') return Promise.resolve(image);
+
+        const file = image instanceof File ? image : new File([image], 'image', { type: image.type });
+        return this.resizeImageFile(file, this.MAX_IMPORT_SIZE, this.MAX_IMPORT_SIZE);
+    }
+
+    // PNG of just the given nodes, for pasting into other apps
+    private nodesPNG(nodes: any[]): Blob | null {
+        const bounds = nodesBounds(nodes);
+        if (!bounds || bounds.width <= 0 || bounds.height <= 0) return null;
+
+        try {
+            // Other shapes are left out, but eraser strokes still cut into the copied ones
+            const others = this.contentNodes().filter(node =>
+                !nodes.includes(node) && node.globalCompositeOperation() !== 'destination-out');
+            return dataURLToBlob(renderRegion(this.stage, bounds, {
+                mimeType: 'image/png',
+                pixelRatio: window.devicePixelRatio || 1,
+                hiddenNodes: [...this.exportHiddenNodes(), ...others]
+            }));
+        } catch (error) {
+            console.error('Error rendering copied shapes:', error);
+            return null;
+        }
+    }
+
+    // Copy the selection in place, just above and to the right of the originals
+    private async duplicateSelection(): Promise<void> {
+        const nodes = [...this.transformer.nodes()]
+            .sort((a: any, b: any) => a.getAbsoluteZIndex() - b.getAbsoluteZIndex());
+        if (nodes.length === 0) return;
+
+        await this.addCopies('Duplicate', nodes.map((node: any) => serializeNode(node)),
+            (index: number) => nodes[index].getParent(), () => ({ dx: this.DUPLICATE_OFFSET, dy: this.DUPLICATE_OFFSET }));
+    }
+
+    // Rebuild serialized nodes, move them by `offsetFor` the copies, add them
+    // on top of their parents and select them
+    private async addCopies(label: string, serialized: SerializedNode[], parentFor: (index: number) => any, offsetFor: (copies: any[]) => Offset): Promise<void> {
+        try {
+            // Round-trip through the project format so event handlers are attached to the copies
+            const copies = await createNodes(serialized);
+            const offset = offsetFor(copies);
+            const added = new Map<any, number>();
+            const placements = copies.map((node: any, i: number) => {
+                this.hydrateNode(node);
+                node.position({ x: node.x() + offset.dx, y: node.y() + offset.dy });
+
+                const parent = parentFor(i);
+                const count = added.get(parent) || 0;
+                added.set(parent, count + 1);
+                return { node, parent, index: parent.getChildren().length + count };
+            });
+
+            this.history.execute(new AddNodesCommand(label, placements));
+            this.select(copies);
+        } catch (error) {
+            console.error(`Error during ${label.toLowerCase()}:`, error);
+            alert(`Failed to ${label.toLowerCase()}. Please try again.`);
+        }
+    }
+
+    private deleteSelection(label: string = 'Delete'): void {
+        const nodes = this.transformer.nodes();
+        if (nodes.length === 0) return;
+
+        this.select([]);
+        // Remove the nodes but keep them alive for undo
+        this.history.execute(new RemoveNodesCommand(label, nodes));
+        this.uiLayer.draw();
+    }
+
+    // Locked nodes stay on the canvas but cannot be selected, moved or erased
+    private isNodeLocked(node: any): boolean {
+        return !!node && !!node.getAttr('locked');
+    }
+
+    private setNodesLocked(nodes: any[], locked: boolean): void {
+        const changes: AttrsChange[] = nodes.map((node: any) => {
+            const before = captureAttrs(node);
+            const after: Record<string, any> = { ...before, locked, draggable: !locked };
+            if (!locked) {
+                delete after.locked;
+            }
+            return { node, before, after };
+        });
+
+        this.history.execute(new AttrsCommand(locked ? 'Lock' : 'Unlock', changes));
+        if (locked) {
+            // Locked nodes can't be selected, so they can't stay selected either
+            this.select(this.transformer.nodes().filter((node: any) => !nodes.includes(node)));
+        } else {
+            this.select(nodes);
+        }
+    }
+
+    private initializeContextMenu(): void {
+        this.contextMenu = new ContextMenu();
+
+        this.stage.on('contextmenu', (e: any) => {
+            e.evt.preventDefault();
+            if (this.isNavigationMode || this.polygonShape) return;
+
+            const topShape = e.target !== this.stage
+                ? this.stage.getIntersection(this.stage.getPointerPosition()) || e.target
+                : null;
+            const node = topShape ? this.selectableNode(topShape, true) : null;
+
+            if (node && this.isNodeLocked(node)) {
+                // Locked nodes cannot be selected, so their menu acts on them directly
+                this.contextMenu!.show(e.evt.clientX, e.evt.clientY, [
+                    { label: 'Unlock', action: () => this.setNodesLocked([node], false) }
+                ]);
+                return;
+            }
+            if (!node) {
+                this.select([]);
+                this.contextMenu!.show(e.evt.clientX, e.evt.clientY, this.canvasMenuEntries(this.stage.getRelativePointerPosition()));
+                return;
+            }
+
+            // Right-clicking a node that is not selected selects just that node
+            if (!this.transformer.nodes().includes(node)) {
+                this.select([node]);
+            }
+            this.contextMenu!.show(e.evt.clientX, e.evt.clientY, this.nodeMenuEntries(this.transformer.nodes(), this.stage.getRelativePointerPosition()));
+        });
+    }
+
+    // Open the context menu from the keyboard, next to the selection or in the middle of the view
+    private openContextMenuFromKeyboard(): void {
+        if (!this.contextMenu || this.isNavigationMode || this.polygonShape) return;
+
+        const nodes = this.transformer.nodes();
+        const container = this.stage.container().getBoundingClientRect();
+        if (nodes.length === 0) {
+            const view = this.exportRegionRect('viewport')!;
+            this.contextMenu.show(
+                container.left + container.width / 2,
+                container.top + container.height / 2,
+                this.canvasMenuEntries({ x: view.x + view.width / 2, y: view.y + view.height / 2 }),
+                true
+            );
+            return;
+        }
+
+        const box = this.transformer.getClientRect();
+        const corner = this.stage.getAbsoluteTransform().copy().invert().point({ x: box.x + box.width, y: box.y });
+        this.contextMenu.show(container.left + box.x + box.width, container.top + box.y, this.nodeMenuEntries(nodes, corner), true);
+    }
+
+    // `point` is where the menu was opened, in canvas coordinates
+    private nodeMenuEntries(nodes: any[], point: Point): ContextMenuEntry[] {
+        const entries: ContextMenuEntry[] = [
+            { label: 'Cut', shortcut: 'Ctrl+X', action: () => this.cutSelection() },
+            { label: 'Copy', shortcut: 'Ctrl+C', action: () => this.copySelection() },
+            { label: 'Paste', shortcut: 'Ctrl+V', action: () => this.pasteFromMenu(null) },
+            { label: 'Paste here', action: () => this.pasteFromMenu(point) },
+            { label: 'Duplicate', shortcut: 'Ctrl+D', action: () => this.duplicateSelection() },
+            { label: 'Delete', shortcut: 'Del', action: () => this.deleteSelection() },
+            'separator',
+            ...this.arrangeMenuEntries(nodes),
+            'separator',
+            { label: 'Group', shortcut: 'Ctrl+G', disabled: nodes.length < 2, action: () => this.groupSelection() },
+            {
+                label: 'Ungroup',
+                shortcut: 'Ctrl+Shift+G',
+                disabled: !nodes.some((node: any) => node.getClassName() === 'Group'),
+                action: () => this.ungroupSelection()
+            },
+            { label: 'Lock', action: () => this.setNodesLocked(nodes, true) }
+        ];
+
+        if (nodes.length === 1 && nodes[0].getClassName() === 'Text' && nodes[0].hasName('text')) {
+            entries.push('separator', { label: 'Edit text', action: () => this.editText(nodes[0]) });
+        }
+
+        const image = nodes.length === 1 ? maskedImage(nodes[0]) : null;
+        if (image || maskPair(nodes)) {
+            entries.push(
+                'separator',
+                { label: 'Crop image', disabled: !image, action: () => this.startCrop(image) },
+                { label: 'Mask image with shape', disabled: !maskPair(nodes), action: () => this.maskSelection() },
+                { label: 'Release mask', disabled: !(image && maskShape(nodes[0])), action: () => this.ungroupSelection() }
+            );
+        }
+        return entries;
+    }
+
+    // Menu for empty canvas; `point` is where it was opened, in canvas coordinates
+    private canvasMenuEntries(point: Point): ContextMenuEntry[] {
+        const images: ContextMenuEntry[] = this.generatedImages.length > 0
+            ? this.generatedImages.map((image, index) => ({
+                label: `Image ${index + 1}`,
+                action: () => this.placeImageOnCanvas(image.url, point)
+            }))
+            : [{ label: 'No generated images yet', disabled: true }];
+
+        return [
+            { label: 'Paste', shortcut: 'Ctrl+V', action: () => this.pasteFromMenu(null) },
+            { label: 'Paste here', action: () => this.pasteFromMenu(point) },
+            { label: 'Select all', shortcut: 'Ctrl+A', action: () => this.selectAll() },
+            { label: 'Zoom to fit', shortcut: 'Shift+1', action: () => this.zoomToFit('content') },
+            'separator',
+            { label: 'Insert image here…', action: () => this.chooseAndInsertImages(point) },
+            { label: 'Insert generated image here', submenu: images }
+        ];
+    }
+
+    private arrangeMenuEntries(nodes: any[]): ContextMenuEntry[] {
+        const align = (label: string, alignment: Alignment, shortcut: string): ContextMenuItem => ({
+            label,
+            shortcut,
+            action: () => this.alignSelection(alignment)
+        });
+
+        return [
+            {
+                label: 'Arrange',
+                submenu: [
+                    { label: 'Bring to front', shortcut: 'Ctrl+Shift+]', action: () => this.reorderSelection('front') },
+                    { label: 'Bring forward', shortcut: 'Ctrl+]', action: () => this.reorderSelection('forward') },
+                    { label: 'Send backward', shortcut: 'Ctrl+[', action: () => this.reorderSelection('backward') },
+                    { label: 'Send to back', shortcut: 'Ctrl+Shift+[', action: () => this.reorderSelection('back') }
+                ]
+            },
+            {
+                label: 'Align',
+                submenu: [
+                    align('Left', 'left', 'Alt+A'),
+                    align('Center', 'center', 'Alt+H'),
+                    align('Right', 'right', 'Alt+D'),
+                    'separator',
+                    align('Top', 'top', 'Alt+W'),
+                    align('Middle', 'middle', 'Alt+V'),
+                    align('Bottom', 'bottom', 'Alt+S'),
+                    'separator',
+                    {
+                        label: 'Relative to selection',
+                        checked: !this.alignToCanvas && nodes.length > 1,
+                        disabled: nodes.length < 2,
+                        action: () => { this.alignToCanvas = false; }
+                    },
+                    {
+                        label: 'Relative to canvas',
+                        checked: this.alignToCanvas || nodes.length === 1,
+                        action: () => { this.alignToCanvas = true; }
+                    }
+                ]
+            },
+            {
+                label: 'Distribute',
+                disabled: nodes.length < 3,
+                submenu: [
+                    { label: 'Horizontally', shortcut: 'Alt+Shift+H', action: () => this.distributeSelection('horizontal') },
+                    { label: 'Vertically', shortcut: 'Alt+Shift+V', action: () => this.distributeSelection('vertical') }
+                ]
+            }
+        ];
+    }
+
+    // Set the selection and keep the inspector in sync with it
+    private select(nodes: any[]): void {
+        // Selecting something else applies a crop in progress
+        this.finishCrop(true);
+        this.transformer.nodes(nodes);
+        this.updateTransformerAnchors();
+        this.uiLayer.batchDraw();
+        if (this.styleInspector) {
+            this.styleInspector.render(nodes);
+        }
+        if (this.imageInspector) {
+            this.imageInspector.render(nodes);
+        }
+        this.renderTransformPanel();
+        this.updateArrangeButtons();
+    }
+
+    private updateArrangeButtons(): void {
+        const groupButton = document.getElementById('group') as HTMLButtonElement;
+        const ungroupButton = document.getElementById('ungroup') as HTMLButtonElement;
+        if (!groupButton || !ungroupButton) return;
+
+        const nodes = this.transformer.nodes();
+        groupButton.disabled = nodes.length < 2;
+        ungroupButton.disabled = !nodes.some((node: any) => node.getClassName() === 'Group');
+    }
+
+    private pruneSelection(): void {
+        const nodes = this.transformer.nodes();
+        // Drop nodes that were removed or grouped, or whose layer is now hidden or locked
+        const selectable = nodes.filter((node: any) => node.getStage() && this.selectableNode(node) === node);
+        if (selectable.length !== nodes.length) {
+            this.select(selectable);
+        }
+    }
+
+    private initializeLayers(): void {
+        this.layersPanel = new LayersPanel({
+            layers: () => userLayers(this.stage),
+            activeLayer: () => this.activeLayer,
+            setActiveLayer: layer => this.setActiveLayer(layer),
+            addLayer: () => this.addLayer(),
+            duplicateLayer: layer => this.duplicateLayer(layer),
+            deleteLayer: layer => this.deleteLayer(layer),
+            renameLayer: (layer, title) => this.updateLayer(layer, 'Rename layer', { title }),
+            setLayerVisible: (layer, visible) => this.updateLayer(layer, visible ? 'Show layer' : 'Hide layer', { visible }),
+            // Locked layers stop listening so their shapes cannot be clicked or dragged
+            setLayerLocked: (layer, locked) => this.updateLayer(layer, locked ? 'Lock layer' : 'Unlock layer',
+                { locked: locked || undefined, listening: locked ? false : undefined }),
+            previewLayerOpacity: (layer, opacity) => layer.opacity(opacity),
+            commitLayerOpacity: (layer, before) => {
+                const opacity = layer.opacity();
+                layer.opacity(before);
+                this.updateLayer(layer, 'Change layer opacity', { opacity: opacity === 1 ? undefined : opacity });
+            },
+            moveLayer: (layer, target) => this.moveLayer(layer, target),
+            moveSelectionToLayer: layer => this.moveSelectionToLayer(layer)
+        });
+
+        // Layer edits all go through the history, so this keeps the panel current
+        this.history.onChange(() => {
+            this.ensureActiveLayer();
+            this.layersPanel!.render();
+        });
+        this.layersPanel.render();
+    }
+
+    private initializeStyleInspector(): void {
+        this.styleInspector = new StyleInspector({
+            previewStyle: style => this.previewStyle(style),
+            commitStyle: () => this.commitNodeEdit(),
+            copyStyle: () => this.copyStyle(),
+            pasteStyle: () => this.pasteStyle(),
+            canPasteStyle: () => this.copiedStyle !== null
+        });
+
+        // Undo and redo can change the style of what is selected
+        this.history.onChange(() => {
+            this.styleInspector!.render(this.transformer.nodes());
+        });
+    }
+
+    private initializeImageInspector(): void {
+        this.imageInspector = new ImageInspector({
+            previewAdjustments: adjustments => this.previewAdjustments(adjustments),
+            commitAdjustments: () => this.commitNodeEdit(),
+            resetAdjustments: () => this.resetAdjustments()
+        });
+
+        // Undo and redo can change the adjustments of what is selected
+        this.history.onChange(() => {
+            this.imageInspector!.render(this.transformer.nodes());
+        });
+    }
+
+    private initializeZoom(): void {
+        // Wheel zooms around the cursor; trackpad pinches arrive as wheel events with ctrlKey
+        this.stage.on('wheel', (e: any) => {
+            e.evt.preventDefault();
+            const pointer = this.stage.getPointerPosition();
+            if (!pointer) return;
+
+            // Line-based deltas (Firefox) are much smaller than pixel ones
+            const delta = e.evt.deltaMode === 1 ? e.evt.deltaY * 16 : e.evt.deltaY;
+            const intensity = e.evt.ctrlKey ? 0.01 : 0.0015;
+            this.zoomTo(this.stage.scaleX() * Math.exp(-delta * intensity), pointer);
+        });
+
+        const zoomInButton = document.getElementById('zoom-in');
+        const zoomOutButton = document.getElementById('zoom-out');
+        const zoomLevel = document.getElementById('zoom-level');
+        const zoomFitButton = document.getElementById('zoom-fit');
+        const zoomSelectionButton = document.getElementById('zoom-selection');
+
+        if (!zoomInButton || !zoomOutButton || !zoomLevel || !zoomFitButton || !zoomSelectionButton) {
+            console.error('Zoom controls not found');
+            return;
+        }
+
+        zoomInButton.addEventListener('click', () => this.zoomBy(this.ZOOM_STEP));
+        zoomOutButton.addEventListener('click', () => this.zoomBy(1 / this.ZOOM_STEP));
+        zoomLevel.addEventListener('click', () => this.zoomTo(1));
+        zoomFitButton.addEventListener('click', () => this.zoomToFit('content'));
+        zoomSelectionButton.addEventListener('click', () => this.zoomToFit('selection'));
+
+        this.viewChanged();
+    }
+
+    // Set the zoom level, keeping the point under `center` (screen coordinates) in place
+    private zoomTo(scale: number, center?: Point): void {
+        const oldScale = this.stage.scaleX();
+        const newScale = Math.min(this.MAX_ZOOM, Math.max(this.MIN_ZOOM, scale));
+        const anchor = center || { x: this.stage.width() / 2, y: this.stage.height() / 2 };
+
+        const pointTo = {
+            x: (anchor.x - this.stage.x()) / oldScale,
+            y: (anchor.y - this.stage.y()) / oldScale
+        };
+        this.stage.scale({ x: newScale, y: newScale });
+        this.stage.position({
+            x: anchor.x - pointTo.x * newScale,
+            y: anchor.y - pointTo.y * newScale
+        });
+        this.limitDragBoundaries();
+        this.stage.batchDraw();
+        this.viewChanged();
+    }
+
+    private zoomBy(factor: number): void {
+        this.zoomTo(this.stage.scaleX() * factor);
+    }
+
+    // Zoom and pan so the content or the selection fills the view
+    private zoomToFit(region: 'content' | 'selection'): void {
+        const rect = this.exportRegionRect(region);
+        if (!rect || rect.width <= 0 || rect.height <= 0) return;
+
+        const padding = 40;
+        const scale = Math.min(this.MAX_ZOOM, Math.max(this.MIN_ZOOM, Math.min(
+            (this.stage.width() - padding * 2) / rect.width,
+            (this.stage.height() - padding * 2) / rect.height
+        )));
+        this.stage.scale({ x: scale, y: scale });
+        this.stage.position({
+            x: this.stage.width() / 2 - (rect.x + rect.width / 2) * scale,
+            y: this.stage.height() / 2 - (rect.y + rect.height / 2) * scale
+        });
+        this.limitDragBoundaries();
+        this.stage.batchDraw();
+        this.viewChanged();
+    }
+
+    private initializeMinimap(): void {
+        this.minimap = new Minimap({
+            bounds: () => this.pannableBounds(),
+            viewport: () => this.exportRegionRect('viewport')!,
+            layers: () => [this.artboardLayer, ...userLayers(this.stage)],
+            stageTransform: () => this.stage.getAbsoluteTransform(),
+            stageScale: () => this.stage.scaleX(),
+            centerOn: point => this.centerOn(point)
+        });
+
+        // Shapes and layers only change through the history, so it tells us when to redraw
+        this.history.onChange(() => this.minimap!.scheduleRender());
+        this.stage.on('dragmove', (e: any) => {
+            if (e.target === this.stage) this.viewChanged();
+        });
+
+        this.minimap.setVisible(true);
+    }
+
+    // Pan so a canvas point is in the middle of the view
+    private centerOn(point: Point): void {
+        const scale = this.stage.scaleX();
+        this.stage.position({
+            x: this.stage.width() / 2 - point.x * scale,
+            y: this.stage.height() / 2 - point.y * scale
+        });
+        this.limitDragBoundaries();
+        this.stage.batchDraw();
+        this.viewChanged();
+    }
+
+    // Keep the zoom indicator and minimap in step after panning or zooming
+    private viewChanged(): void {
+        this.updateZoomIndicator();
+        this.drawRulers();
+        if (this.gridLayer) {
+            this.gridLayer.batchDraw();
+        }
+        if (!this.minimap) return;
+
+        // An infinite canvas's minimap covers an area that depends on the zoom
+        if (this.canvasSettings.mode === 'infinite') {
+            this.minimap.scheduleRender();
+        }
+        this.minimap.renderViewport();
+    }
+
+    private initializeGrid(): void {
+        const gridPanel = new GridPanel({
+            settingsChanged: settings => this.applyGridSettings(settings),
+            clearGuides: () => {
+                if (this.guides) this.guides.clear();
+            }
+        });
+        this.applyGridSettings(gridPanel.settings());
+
+        // Drag guides out of the rulers
+        const topRuler = document.getElementById('ruler-top');
+        const leftRuler = document.getElementById('ruler-left');
+        if (!topRuler || !leftRuler) {
+            console.error('Rulers not found');
+            return;
+        }
+        topRuler.addEventListener('pointerdown', (e: PointerEvent) => this.dragNewGuide('horizontal', e));
+        leftRuler.addEventListener('pointerdown', (e: PointerEvent) => this.dragNewGuide('vertical', e));
+
+        // Snap shapes being dragged; the drag target is moved and the transformer
+        // carries the rest of the selection along
+        this.stage.on('dragstart', (e: any) => {
+            const target = e.target;
+            if (target === this.stage || this.selectableNode(target) !== target || !this.isSnappingEnabled()) return;
+
+            const selected = this.transformer.nodes();
+            const moving = selected.includes(target) ? selected : [target];
+            const targets = this.snapTargets(moving);
+            target.dragBoundFunc((pos: Point) => this.snapDrag(target, moving, targets, pos));
+
+            // Drop the bound function before the move is recorded, so it is never saved
+            target.on('dragend.snap', () => {
+                target.off('dragend.snap');
+                target.dragBoundFunc(undefined);
+                this.clearSnapLines();
+            });
+        });
+
+        this.transformer.on('transformstart', () => {
+            this.snapTargetsCache = this.isSnappingEnabled() ? this.snapTargets(this.transformer.nodes()) : null;
+        });
+        this.transformer.on('transformend', () => {
+            this.snapTargetsCache = null;
+            this.clearSnapLines();
+        });
+    }
+
+    private applyGridSettings(settings: GridSettings): void {
+        this.gridSettings = settings;
+        // Rulers and the panels that make room for them are styled from the container class
+        this.stage.container().classList.toggle('with-rulers', settings.showRulers);
+        this.viewChanged();
+    }
+
+    private drawRulers(): void {
+        if (!this.gridSettings.showRulers) return;
+
+        const topRuler = document.getElementById('ruler-top') as HTMLCanvasElement;
+        const leftRuler = document.getElementById('ruler-left') as HTMLCanvasElement;
+        if (!topRuler || !leftRuler) return;
+
+        drawRuler(topRuler, 'horizontal', this.stage.x(), this.stage.scaleX());
+        drawRuler(leftRuler, 'vertical', this.stage.y(), this.stage.scaleY());
+    }
+
+    // Canvas coordinates of a point given in client (page) pixels
+    private clientToCanvas(clientX: number, clientY: number): Point {
+        const box = this.stage.container().getBoundingClientRect();
+        return this.stage.getAbsoluteTransform().copy().invert().point({
+            x: clientX - box.left,
+            y: clientY - box.top
+        });
+    }
+
+    // Create a guide and let it follow the pointer until released; releasing on the ruler cancels it
+    private dragNewGuide(orientation: GuideOrientation, e: PointerEvent): void {
+        if (!this.guides) return;
+        e.preventDefault();
+
+        const start = this.clientToCanvas(e.clientX, e.clientY);
+        const guide = this.guides.add(orientation, orientation === 'horizontal' ? start.y : start.x);
+
+        const move = (event: PointerEvent) => {
+            const pos = this.clientToCanvas(event.clientX, event.clientY);
+            if (orientation === 'horizontal') {
+                guide.y(pos.y);
+            } else {
+                guide.x(pos.x);
+            }
+            this.uiLayer.batchDraw();
+        };
+        const up = () => {
+            window.removeEventListener('pointermove', move);
+            window.removeEventListener('pointerup', up);
+            if (this.isGuideOverRuler(guide)) {
+                guide.destroy();
+                this.uiLayer.batchDraw();
+            } else {
+                this.scheduleAutosave();
+            }
+        };
+        window.addEventListener('pointermove', move);
+        window.addEventListener('pointerup', up);
+    }
+
+    private isGuideOverRuler(guide: any): boolean {
+        if (!this.gridSettings.showRulers) return false;
+        const pos = guide.absolutePosition();
+        return guide.getAttr('orientation') === 'horizontal' ? pos.y < RULER_SIZE : pos.x < RULER_SIZE;
+    }
+
+    private isSnappingEnabled(): boolean {
+        const { snapToGrid, snapToGuides, snapToShapes } = this.gridSettings;
+        return snapToGrid || snapToGuides || snapToShapes;
+    }
+
+    // Everything a drag, resize or new shape can snap to, except the nodes being changed
+    private snapTargets(exclude: any[]): SnapTargets {
+        const { snapToGrid, snapToGuides, snapToShapes, spacing } = this.gridSettings;
+        const x: SnapTarget[] = [];
+        const y: SnapTarget[] = [];
+
+        if (snapToGuides && this.guides) {
+            this.guides.positions('vertical').forEach(position => x.push({ position, visible: true }));
+            this.guides.positions('horizontal').forEach(position => y.push({ position, visible: true }));
+        }
+
+        if (snapToShapes) {
+            // Only shapes near the view matter, which keeps large drawings fast
+            const view = this.exportRegionRect('viewport')!;
+            const rects = this.contentNodes()
+                .filter(node => node.visible() && !exclude.includes(node) &&
+                    node.globalCompositeOperation() !== 'destination-out')
+                .map(node => node.getClientRect({ relativeTo: node.getLayer() }))
+                .filter((rect: Rect) => Konva.Util.haveIntersection(rect, view));
+            const shapes = rectTargets(rects);
+            x.push(...shapes.x);
+            y.push(...shapes.y);
+        }
+
+        return { x, y, grid: snapToGrid ? spacing : null };
+    }
+
+    private snapDrag(target: any, moving: any[], targets: SnapTargets, pos: Point): Point {
+        const box = nodesBounds(moving);
+        if (!box) return pos;
+
+        const scale = this.stage.scaleX();
+        const current = target.absolutePosition();
+        box.x += (pos.x - current.x) / scale;
+        box.y += (pos.y - current.y) / scale;
+
+        const result = snapRect(box, targets, this.SNAP_DISTANCE / scale);
+        this.showSnapLines(result);
+        return { x: pos.x + result.dx * scale, y: pos.y + result.dy * scale };
+    }
+
+    // Snap a transformer anchor; rotated selections resize freely
+    private snapAnchor(pos: Point): Point {
+        const rotation = ((this.transformer.rotation() % 90) + 90) % 90;
+        if (!this.snapTargetsCache || this.transformer.getActiveAnchor() === 'rotater' || rotation > 0.01) {
+            return pos;
+        }
+
+        const transform = this.stage.getAbsoluteTransform();
+        const point = transform.copy().invert().point(pos);
+        const result = snapPoint(point, this.snapTargetsCache, this.SNAP_DISTANCE / this.stage.scaleX());
+        this.showSnapLines(result);
+        return transform.point({ x: point.x + result.dx, y: point.y + result.dy });
+    }
+
+    // Pointer in canvas coordinates, snapped while a shape is being drawn
+    private drawingPointer(): Point {
+        const pos = this.stage.getRelativePointerPosition();
+        if (!this.snapTargetsCache) return pos;
+
+        const result = snapPoint(pos, this.snapTargetsCache, this.SNAP_DISTANCE / this.stage.scaleX());
+        this.showSnapLines(result);
+        return { x: pos.x + result.dx, y: pos.y + result.dy };
+    }
+
+    // Freehand tools and the marquee follow the pointer exactly
+    private snapsWhileDrawing(): boolean {
+        return this.isSnappingEnabled() && !['pencil', 'eraser', 'select', 'text'].includes(this.currentTool);
+    }
+
+    private showSnapLines(result: SnapResult): void {
+        this.snapLines.destroyChildren();
+        const view = this.exportRegionRect('viewport')!;
+        const line = (points: number[]) => new Konva.Line({
+            points,
+            stroke: '#ff4d8d',
+            strokeWidth: 1,
+            strokeScaleEnabled: false,
+            listening: false
+        });
+        result.vertical.forEach(x => this.snapLines.add(line([x, view.y, x, view.y + view.height])));
+        result.horizontal.forEach(y => this.snapLines.add(line([view.x, y, view.x + view.width, y])));
+        this.uiLayer.batchDraw();
+    }
+
+    private clearSnapLines(): void {
+        if (this.snapLines.getChildren().length === 0) return;
+        this.snapLines.destroyChildren();
+        this.uiLayer.batchDraw();
+    }
+
+    // Helpers that must not show up in exported images: the overlay (transformer,
+    // guides), the artboard, the grid and frames
+    private exportHiddenNodes(): any[] {
+        return [this.uiLayer, this.artboardLayer, this.gridLayer, ...this.frameNodes()];
+    }
+
+    private updateZoomIndicator(): void {
+        const zoomLevel = document.getElementById('zoom-level');
+        if (zoomLevel) {
+            zoomLevel.textContent = `${Math.round(this.stage.scaleX() * 100)}%`;
+        }
+    }
+
+    private startPinch(touches: TouchList): void {
+        // Navigation mode's one-finger pan would fight the pinch
+        if (this.stage.isDragging()) {
+            this.stage.stopDrag();
+        }
+        this.pinch = this.pinchState(touches);
+    }
+
+    // Scale by the change in finger distance and pan with the midpoint
+    private updatePinch(touches: TouchList): void {
+        if (!this.pinch || touches.length < 2) return;
+
+        const next = this.pinchState(touches);
+        const oldScale = this.stage.scaleX();
+        const newScale = Math.min(this.MAX_ZOOM, Math.max(this.MIN_ZOOM, oldScale * next.distance / this.pinch.distance));
+        const pointTo = {
+            x: (this.pinch.center.x - this.stage.x()) / oldScale,
+            y: (this.pinch.center.y - this.stage.y()) / oldScale
+        };
+        this.stage.scale({ x: newScale, y: newScale });
+        this.stage.position({
+            x: next.center.x - pointTo.x * newScale,
+            y: next.center.y - pointTo.y * newScale
+        });
+        this.limitDragBoundaries();
+        this.stage.batchDraw();
+        this.viewChanged();
+
+        this.pinch = next;
+    }
+
+    // Finger distance and midpoint, relative to the stage container
+    private pinchState(touches: TouchList): { distance: number; center: Point } {
+        const box = this.stage.container().getBoundingClientRect();
+        const a = { x: touches[0].clientX - box.left, y: touches[0].clientY - box.top };
+        const b = { x: touches[1].clientX - box.left, y: touches[1].clientY - box.top };
+        return {
+            distance: Math.max(1, Math.hypot(b.x - a.x, b.y - a.y)),
+            center: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }
+        };
+    }
+
+    private initializeTransformPanel(): void {
+        this.transformPanel = new TransformPanel({
+            setTransform: box => this.setSelectionBox(box),
+            setAspectLocked: () => this.updateTransformerAnchors(),
+            flip: axis => this.flipSelection(axis)
+        });
+        this.updateTransformerAnchors();
+
+        // Follow the selection while it is dragged, resized or rotated, and through undo/redo
+        this.transformer.on('transform', () => this.renderTransformPanel());
+        this.stage.on('dragmove', (e: any) => {
+            if (e.target !== this.stage) this.renderTransformPanel();
+        });
+        this.history.onChange(() => this.renderTransformPanel());
+    }
+
+    // Images always keep their proportions, so they only get corner handles
+    private updateTransformerAnchors(): void {
+        const hasImage = this.transformer.nodes().some((node: any) =>
+            node.getClassName() === 'Image' || (typeof node.find === 'function' && node.find('Image').length > 0));
+        const locked = !this.transformPanel || this.transformPanel.isAspectLocked();
+        this.transformer.keepRatio(hasImage || locked);
+        this.transformer.enabledAnchors(hasImage ? this.CORNER_ANCHORS : this.ALL_ANCHORS);
+    }
+
+    private renderTransformPanel(): void {
+        if (!this.transformPanel) return;
+        const nodes = this.transformer.nodes();
+        this.transformPanel.render(selectionBox(nodes), nodes.length === 1);
+    }
+
+    // Move, resize and rotate the selection so its box matches the one typed in
+    private setSelectionBox(box: TransformBox): void {
+        const nodes = this.transformer.nodes();
+        const current = selectionBox(nodes);
+        if (!current) return;
+
+        this.applyTransform('Transform', nodes, boxTransform(current, box));
+    }
+
+    // Mirror the selection in place, about the centre of its box
+    private flipSelection(axis: FlipAxis): void {
+        const nodes = this.transformer.nodes();
+        const box = selectionBox(nodes);
+        if (!box) return;
+
+        this.applyTransform(axis === 'horizontal' ? 'Flip horizontal' : 'Flip vertical',
+            nodes, flipTransform(axis, boxCenter(box)));
+    }
+
+    private applyTransform(label: string, nodes: any[], transform: any): void {
+        this.beginNodeEdit(label, nodes);
+        nodes.forEach(node => node.setAttrs(transformedAttrs(node, transform)));
+        this.transformer.forceUpdate();
+        this.commitNodeEdit();
+    }
+
+    // Apply a style to the selection; the first change after a commit starts a new undo step
+    private previewStyle(style: Partial<ShapeStyle>): void {
+        const targets = styleTargets(this.transformer.nodes());
+        if (targets.length === 0) return;
+
+        if (!this.pendingEdit) {
+            this.beginNodeEdit('Change style', targets);
+        }
+        targets.forEach(node => node.setAttrs(styleAttrs(node, style)));
+        this.transformer.forceUpdate();
+    }
+
+    private previewAdjustments(adjustments: Partial<ImageAdjustments>): void {
+        const targets = imageTargets(this.transformer.nodes());
+        if (targets.length === 0) return;
+
+        if (!this.pendingEdit) {
+            this.beginNodeEdit('Adjust image', targets);
+        }
+        // The nodes' adjustment watchers refilter and redraw them
+        targets.forEach(node => node.setAttrs(adjustmentAttrs(adjustments)));
+    }
+
+    // Back to the original picture; the source was never modified
+    private resetAdjustments(): void {
+        const targets = imageTargets(this.transformer.nodes());
+        if (targets.length === 0) return;
+
+        this.beginNodeEdit('Reset image adjustments', targets);
+        targets.forEach(node => node.setAttrs(adjustmentAttrs(DEFAULT_ADJUSTMENTS)));
+        this.commitNodeEdit();
+        this.imageInspector!.render(this.transformer.nodes());
+    }
+
+    private copyStyle(): void {
+        const targets = styleTargets(this.transformer.nodes());
+        if (targets.length > 0) {
+            this.copiedStyle = readStyle(targets[0]);
+            this.styleInspector!.render(this.transformer.nodes());
+        }
+    }
+
+    private pasteStyle(): void {
+        if (!this.copiedStyle || this.transformer.nodes().length === 0) return;
+
+        this.beginNodeEdit('Paste style', styleTargets(this.transformer.nodes()));
+        this.previewStyle(this.copiedStyle);
+        this.commitNodeEdit();
+        // Keep the pasted style in the inspector even if nothing changed
+        this.styleInspector!.render(this.transformer.nodes());
+    }
+
+    private createLayerId(): string {
+        return `layer_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+    }
+
+    private setActiveLayer(layer: any): void {
+        this.activeLayer = layer;
+        if (this.layersPanel) {
+            this.layersPanel.render();
+        }
+    }
+
+    // Undo/redo can remove the active layer; fall back to the top layer
+    private ensureActiveLayer(): void {
+        if (this.activeLayer && this.activeLayer.getStage()) return;
+        const layers = userLayers(this.stage);
+        this.activeLayer = layers[layers.length - 1];
+    }
+
+    // New shapes can only go onto a visible, unlocked layer
+    private canEditActiveLayer(): boolean {
+        if (isLayerEditable(this.activeLayer)) return true;
+        alert(`"${layerTitle(this.activeLayer)}" is ${isLayerLocked(this.activeLayer) ? 'locked' : 'hidden'}. Choose another layer or change it in the Layers panel.`);
+        return false;
+    }
+
+    private addLayer(): void {
+        const layer = createUserLayer(this.createLayerId(), nextLayerTitle(userLayers(this.stage)));
+        this.history.execute(new AddNodesCommand('Add layer', [{
+            node: layer,
+            parent: this.stage,
+            index: this.activeLayer.zIndex() + 1
+        }]));
+        this.setActiveLayer(layer);
+    }
+
+    private async duplicateLayer(layer: any): Promise<void> {
+        try {
+            // Round-trip through the project format so event handlers are attached to the copies
+            const [copy] = await createNodes([serializeNode(layer)]);
+            copy.setAttrs({ id: this.createLayerId(), title: `${layerTitle(layer)} copy` });
+            this.hydrateNode(copy);
+
+            this.history.execute(new AddNodesCommand('Duplicate layer', [{
+                node: copy,
+                parent: this.stage,
+                index: layer.zIndex() + 1
+            }]));
+            this.setActiveLayer(copy);
+        } catch (error) {
+            console.error('Error duplicating layer:', error);
+            alert('Failed to duplicate layer. Please try again.');
+        }
+    }
+
+    private deleteLayer(layer: any): void {
+        const layers = userLayers(this.stage);
+        if (layers.length <= 1) return;
+
+        if (layer.getChildren().length > 0 && !confirm(`Delete "${layerTitle(layer)}" and everything on it?`)) {
+            return;
+        }
+
+        // Activate the layer below, or the one above when deleting the bottom layer
+        const index = layers.indexOf(layer);
+        const next = layers[index > 0 ? index - 1 : index + 1];
+
+        this.select(this.transformer.nodes().filter((node: any) => node.getLayer() !== layer));
+        this.activeLayer = next;
+        this.history.execute(new RemoveNodesCommand('Delete layer', [layer]));
+    }
+
+    // Apply layer attributes as one undoable step; undefined removes an attribute
+    private updateLayer(layer: any, label: string, attrs: Record<string, any>): void {
+        const before = captureAttrs(layer);
+        const after = { ...before, ...attrs };
+        Object.keys(after).forEach(key => {
+            if (after[key] === undefined) delete after[key];
+        });
+        if (attrsEqual(before, after)) {
+            this.layersPanel!.render();
+            return;
+        }
+        this.history.execute(new AttrsCommand(label, [{ node: layer, before, after }]));
+    }
+
+    // Restack a layer into the position currently held by another one
+    private moveLayer(layer: any, target: any): void {
+        const before = capturePlacements([layer]);
+        layer.zIndex(target.zIndex());
+        const after = capturePlacements([layer]);
+        this.history.record(new MoveNodesCommand('Reorder layers', before, after));
+    }
+
+    private moveSelectionToLayer(layer: any): void {
+        const nodes = this.transformer.nodes().filter((node: any) => node.getLayer() !== layer);
+        if (nodes.length === 0 || !isLayerEditable(layer)) return;
+
+        // Keep the shapes in the same stacking order relative to each other
+        const ordered = [...nodes].sort((a: any, b: any) => a.getAbsoluteZIndex() - b.getAbsoluteZIndex());
+        const before = capturePlacements(ordered);
+        ordered.forEach((node: any) => node.moveTo(layer));
+        const after = capturePlacements(ordered);
+
+        before.forEach(placement => placement.parent.getLayer().batchDraw());
+        layer.batchDraw();
+        this.history.record(new MoveNodesCommand('Move to layer', before, after));
+        this.setActiveLayer(layer);
+    }
+
+    private initializeKonvaTextInput(): void {
+        // We'll handle text directly with Konva.Text instead of HTML contenteditable
+        this.textInput.style.display = 'none';
+        this.textInputContainer.style.display = 'none';
+    }
+
+    private initializeDocumentName(): void {
+        const documentNameElement = document.getElementById('document-name');
+        if (!documentNameElement) {
+            console.error('Document name element not found');
+            return;
+        }
+
+        // Initialize modal elements
+        const modal = document.getElementById('rename-modal') as HTMLElement;
+        const nameInput = document.getElementById('document-name-input') as HTMLInputElement;
+        const confirmButton = document.getElementById('rename-confirm') as HTMLButtonElement;
+        const cancelButton = document.getElementById('rename-cancel') as HTMLButtonElement;
+        const closeButton = document.querySelector('.close-modal') as HTMLElement;
+
+        if (!modal || !nameInput || !confirmButton || !cancelButton || !closeButton) {
+            console.error('Modal elements not found');
+            return;
+        }
+
+        // Set initial document name
+        documentNameElement.textContent = this.documentName;
+
+        // Show modal when document name is clicked
+        documentNameElement.addEventListener('click', () => {
+            this.openRenameModal(this.documentId, this.documentName);
+        });
+
+        // Handle rename confirmation
+        const renameDocument = async () => {
+            const newName = nameInput.value.trim();
+            const targetId = this.renameTargetId || this.documentId;
+            if (newName) {
+                // Names must be unique within the document library
+                const error = await this.validateDocumentName(newName, targetId);
+                if (error) {
+                    this.showRenameError(error);
+                    return;
+                }
+                await this.renameDocument(targetId, newName);
+            }
+            modal.style.display = 'none';
+        };
+        
+        // Clear the error as soon as the name is edited
+        nameInput.addEventListener('input', () => this.showRenameError(null));
+
+        // Attach event listeners
+        confirmButton.addEventListener('click', renameDocument);
+        
+        // Close modal on cancel
+        cancelButton.addEventListener('click', () => {
+            modal.style.display = 'none';
+        });
+        
+        // Close modal with X button
+        closeButton.addEventListener('click', () => {
+            modal.style.display = 'none';
+        });
+        
+        // Handle Enter key in input
+        nameInput.addEventListener('keydown', (e: KeyboardEvent) => {
+            if (e.key === 'Enter') {
+                renameDocument();
+            }
+        });
+    }
+
+    private openRenameModal(id: string, currentName: string): void {
+        const modal = document.getElementById('rename-modal') as HTMLElement;
+        const nameInput = document.getElementById('document-name-input') as HTMLInputElement;
+        if (!modal || !nameInput) return;
+
+        this.renameTargetId = id;
+        this.showRenameError(null);
+        nameInput.value = currentName;
+        modal.style.display = 'flex';
+        nameInput.focus();
+        nameInput.select();
+    }
+
+    private showRenameError(message: string | null): void {
+        const errorElement = document.getElementById('rename-error');
+        if (!errorElement) return;
+
+        errorElement.textContent = message || '';
+        errorElement.style.display = message ? 'block' : 'none';
+    }
+
+    // Returns an error message if the name is taken by another document
+    private async validateDocumentName(name: string, id: string): Promise<string | null> {
+        const names = await this.documentNames(id);
+        if (names.some(existing => existing.toLowerCase() === name.toLowerCase())) {
+            return `A document named "${name}" already exists.`;
+        }
+        return null;
+    }
+
+    // Names of every document in the library except the one with the given id
+    private async documentNames(excludeId: string): Promise<string[]> {
+        const names: string[] = [];
+        let activeStored = false;
+
+        if (this.autosaveEnabled) {
+            try {
+                const docs = await this.documentStore.listDocuments();
+                docs.forEach(doc => {
+                    if (doc.id === this.documentId) activeStored = true;
+                    if (doc.id !== excludeId) names.push(doc.name);
+                });
+            } catch (error) {
+                console.error('Error reading document library:', error);
+            }
+        }
+
+        // The active document may not have been autosaved yet
+        if (!activeStored && this.documentId !== excludeId) {
+            names.push(this.documentName);
+        }
+        return names;
+    }
+
+    private async uniqueDocumentName(base: string): Promise<string> {
+        const names = (await this.documentNames('')).map(name => name.toLowerCase());
+        let name = base;
+        let counter = 2;
+        while (names.includes(name.toLowerCase())) {
+            name = `${base} ${counter++}`;
+        }
+        return name;
+    }
+
+    private async renameDocument(id: string, name: string): Promise<void> {
+        if (id === this.documentId) {
+            this.setDocumentName(name);
+            this.scheduleAutosave();
+        } else {
+            try {
+                const doc = await this.documentStore.getDocument(id);
+                if (doc) {
+                    doc.name = name;
+                    doc.project.documentName = name;
+                    doc.updatedAt = Date.now();
+                    await this.documentStore.saveDocument(doc);
+                }
+            } catch (error) {
+                console.error('Error renaming document:', error);
+                alert('Failed to rename document. Please try again.');
+            }
+        }
+
+        if (this.documentBrowser && this.documentBrowser.isOpen()) {
+            await this.documentBrowser.refresh();
+        }
+    }
+
+    private setDocumentName(name: string): void {
+        this.documentName = name;
+        const documentNameElement = document.getElementById('document-name');
+        if (documentNameElement) {
+            documentNameElement.textContent = name;
+        }
+    }
+
+    private createDocumentId(): string {
+        return `doc_${Date.now()}_${Math.floor(Math.random() * 1000)}`;
+    }
+
+    private async initializeAutosave(): Promise<void> {
+        try {
+            await this.documentStore.open();
+        } catch (error) {
+            console.error('Autosave unavailable:', error);
+            return;
+        }
+        this.autosaveEnabled = true;
+
+        this.documentBrowser = new DocumentBrowser(this.documentStore, {
+            activeDocumentId: () => this.documentId,
+            openDocument: (id: string) => this.switchDocument(id),
+            createDocument: () => this.newDocument(),
+            duplicateDocument: (id: string) => this.duplicateDocument(id),
+            deleteDocument: (id: string) => this.deleteDocument(id),
+            renameDocument: (id: string, name: string) => this.openRenameModal(id, name)
+        });
+
+        // Save shortly after every recorded change
+        this.history.onChange(() => this.scheduleAutosave());
+
+        // Panning the stage changes the saved view position
+        this.stage.on('dragend', (e: any) => {
+            if (e.target === this.stage) {
+                this.scheduleAutosave();
+            }
+        });
+
+        // Periodic save in case a change slipped past the debounce
+        window.setInterval(() => {
+            if (this.autosaveDirty) {
+                this.autosave();
+            }
+        }, this.AUTOSAVE_INTERVAL);
+
+        // Flush pending changes when the tab is hidden or about to close
+        document.addEventListener('visibilitychange', () => {
+            if (document.visibilityState === 'hidden' && this.autosaveDirty) {
+                this.autosave();
+            }
+        });
+
+        await this.offerSessionRestore();
+    }
+
+    private scheduleAutosave(): void {
+        if (!this.autosaveEnabled) return;
+
+        this.autosaveDirty = true;
+        if (this.autosaveTimer !== null) {
+            window.clearTimeout(this.autosaveTimer);
+        }
+        this.autosaveTimer = window.setTimeout(() => this.autosave(), this.AUTOSAVE_DELAY);
+    }
+
+    private cancelAutosave(): void {
+        this.autosaveDirty = false;
+        if (this.autosaveTimer !== null) {
+            window.clearTimeout(this.autosaveTimer);
+            this.autosaveTimer = null;
+        }
+    }
+
+    private async autosave(): Promise<void> {
+        if (!this.autosaveEnabled) return;
+        this.cancelAutosave();
+
+        const doc: StoredDocument = {
+            id: this.documentId,
+            name: this.documentName,
+            updatedAt: Date.now(),
+            project: this.serializeProject(),
+            generatedImages: this.generatedImages,
+            thumbnail: this.renderThumbnail()
+        };
+
+        try {
+            await this.documentStore.saveDocument(doc);
+            await this.documentStore.setMeta<SessionState>('session', {
+                documentId: doc.id,
+                updatedAt: doc.updatedAt
+            });
+            await this.addRecentDocument(doc.id);
+        } catch (error) {
+            console.error('Autosave failed:', error);
+            // Try again on the next change or interval
+            this.autosaveDirty = true;
+        }
+    }
+
+    // Small PNG preview of the drawing for the document browser
+    private renderThumbnail(): string | null {
+        const bounds = nodesBounds(this.contentNodes());
+        if (!bounds || bounds.width === 0 || bounds.height === 0) return null;
+
+        try {
+            const scale = Math.min(1, this.THUMBNAIL_SIZE / Math.max(bounds.width, bounds.height));
+            // Keep selection handles out of the preview
+            return renderRegion(this.stage, bounds, {
+                mimeType: 'image/png',
+                pixelRatio: scale,
+                hiddenNodes: this.exportHiddenNodes()
+            });
+        } catch (error) {
+            console.error('Error rendering thumbnail:', error);
+            return null;
+        }
+    }
+
+    private async addRecentDocument(id: string): Promise<void> {
+        const recent = (await this.documentStore.getMeta<string[]>('recentDocuments')) || [];
+        const updated = [id, ...recent.filter(recentId => recentId !== id)].slice(0, this.MAX_RECENT_DOCUMENTS);
+        await this.documentStore.setMeta('recentDocuments', updated);
+    }
+
+    private async offerSessionRestore(): Promise<void> {
+        try {
+            const session = await this.documentStore.getMeta<SessionState>('session');
+            if (!session) return;
+
+            const doc = await this.documentStore.getDocument(session.documentId);
+            if (!doc) return;
+
+            if (await this.showRestorePrompt(doc)) {
+                await this.openStoredDocument(doc.id);
+            }
+        } catch (error) {
+            console.error('Error checking for unsaved document:', error);
+        }
+    }
+
+    private showRestorePrompt(doc: StoredDocument): Promise<boolean> {
+        return new Promise(resolve => {
+            const modal = document.getElementById('restore-modal') as HTMLElement;
+            const message = document.getElementById('restore-message') as HTMLElement;
+            const confirmButton = document.getElementById('restore-confirm') as HTMLButtonElement;
+            const discardButton = document.getElementById('restore-discard') as HTMLButtonElement;
+
+            if (!modal || !message || !confirmButton || !discardButton) {
+                console.error('Restore modal elements not found');
+                resolve(false);
+                return;
+            }
+
+            message.textContent = `"${doc.name}" was last saved ${new Date(doc.updatedAt).toLocaleString()}.`;
+            modal.style.display = 'flex';
+
+            const close = (restore: boolean) => {
+                modal.style.display = 'none';
+                confirmButton.removeEventListener('click', onConfirm);
+                discardButton.removeEventListener('click', onDiscard);
+                resolve(restore);
+            };
+            const onConfirm = () => close(true);
+            const onDiscard = () => close(false);
+
+            confirmButton.addEventListener('click', onConfirm);
+            discardButton.addEventListener('click', onDiscard);
+        });
+    }
+
+    private async openStoredDocument(id: string): Promise<void> {
+        const doc = await this.documentStore.getDocument(id);
+        if (!doc) {
+            alert('That document could not be found.');
+            return;
+        }
+
+        // Documents stored by older versions use an older project format
+        await this.loadProject(migrateProject(doc.project));
+        this.documentId = doc.id;
+
+        this.generatedImages = doc.generatedImages || [];
+        if (this.generatedImages.length > 0) {
+            this.displayThumbnails();
+        } else {
+            this.thumbnailsContainer.innerHTML = '';
+        }
+
+        // Nothing has changed since this version was stored
+        this.cancelAutosave();
+        await this.documentStore.setMeta<SessionState>('session', {
+            documentId: doc.id,
+            updatedAt: doc.updatedAt
+        });
+        await this.addRecentDocument(doc.id);
+    }
+
+    // Start a blank document, keeping the current one in the library
+    private async newDocument(): Promise<void> {
+        if (this.autosaveDirty) {
+            await this.autosave();
+        }
+
+        this.replaceLayers([createUserLayer(this.createLayerId(), 'Layer 1')], null);
+        this.applyCanvasSettings({ ...DEFAULT_CANVAS_SETTINGS });
+        if (this.guides) {
+            this.guides.load([]);
+        }
+
+        this.documentId = this.createDocumentId();
+        this.setDocumentName(await this.uniqueDocumentName('Untitled Document'));
+        this.generatedImages = [];
+        this.thumbnailsContainer.innerHTML = '';
+        this.history.clear();
+
+        // A blank document is not stored until something changes
+        this.cancelAutosave();
+    }
+
+    private async duplicateDocument(id: string): Promise<void> {
+        try {
+            // Make sure the copy includes the latest changes
+            if (id === this.documentId && this.autosaveDirty) {
+                await this.autosave();
+            }
+
+            const doc = await this.documentStore.getDocument(id);
+            if (!doc) return;
+
+            const name = await this.uniqueDocumentName(`${doc.name} copy`);
+            const copy: StoredDocument = {
+                ...doc,
+                id: this.createDocumentId(),
+                name,
+                updatedAt: Date.now(),
+                project: { ...doc.project, documentName: name }
+            };
+            await this.documentStore.saveDocument(copy);
+        } catch (error) {
+            console.error('Error duplicating document:', error);
+            alert('Failed to duplicate document. Please try again.');
+        }
+    }
+
+    private async deleteDocument(id: string): Promise<void> {
+        try {
+            await this.documentStore.deleteDocument(id);
+            const recent = (await this.documentStore.getMeta<string[]>('recentDocuments')) || [];
+            await this.documentStore.setMeta('recentDocuments', recent.filter(recentId => recentId !== id));
+
+            // Deleting the open document leaves a fresh blank one in its place
+            if (id === this.documentId) {
+                this.cancelAutosave();
+                await this.newDocument();
+            }
+        } catch (error) {
+            console.error('Error deleting document:', error);
+            alert('Failed to delete document. Please try again.');
+        }
+    }
+
+    private async switchDocument(id: string): Promise<void> {
+        if (id === this.documentId) return;
+
+        try {
+            // Keep the current document before replacing it
+            if (this.autosaveDirty) {
+                await this.autosave();
+            }
+            await this.openStoredDocument(id);
+        } catch (error) {
+            console.error('Error switching document:', error);
+            alert('Failed to open document. Please try again.');
+        }
+    }
+
+    private async renderRecentDocuments(): Promise<void> {
+        const list = document.getElementById('recent-documents');
+        if (!list || !this.autosaveEnabled) return;
+
+        let docs: StoredDocument[] = [];
+        try {
+            const recent = (await this.documentStore.getMeta<string[]>('recentDocuments')) || [];
+            docs = (await Promise.all(recent.map(id => this.documentStore.getDocument(id))))
+                .filter((doc): doc is StoredDocument => doc !== null);
+        } catch (error) {
+            // Show the empty list rather than a stale one
+            console.error('Error reading recent documents:', error);
+        }
+
+        list.innerHTML = '';
+        if (docs.length === 0) {
+            const empty = document.createElement('li');
+            empty.className = 'menu-item recent-empty';
+            empty.textContent = 'No recent documents';
+            list.appendChild(empty);
+            return;
+        }
+
+        docs.forEach(doc => {
+            const item = document.createElement('li');
+            item.className = 'menu-item recent-document';
+            if (doc.id === this.documentId) {
+                item.classList.add('current');
+            }
+            item.textContent = doc.name;
+            item.title = `Last modified ${new Date(doc.updatedAt).toLocaleString()}`;
+            item.addEventListener('click', (e) => {
+                e.stopPropagation();
+                const menuDropdown = document.getElementById('menu-dropdown');
+                if (menuDropdown) {
+                    menuDropdown.classList.remove('active');
+                }
+                this.switchDocument(doc.id);
+            });
+            list.appendChild(item);
+        });
+    }
+
+    private initializeCanvas(): void {
+        const updateCanvasSize = () => {
+            const container = document.getElementById('canvas-container');
+            if (!container) return;
+            
+            const rect = container.getBoundingClientRect();
+            this.canvas.width = rect.width;
+            this.canvas.height = rect.height;
+            
+            // If Konva stage is initialized, update its size too
+            if (this.stage) {
+                this.stage.width(rect.width);
+                this.stage.height(rect.height);
+                this.viewChanged();
+                
+                // Center the view initially on the artboard
+                if (!this.stage.x() && !this.stage.y()) {
+                    const offsetX = (this.canvasSettings.width - rect.width) / 2;
+                    const offsetY = (this.canvasSettings.height - rect.height) / 2;
+                    this.stage.position({
+                        x: -offsetX,
+                        y: -offsetY
+                    });
+                }
+            }
+        };
+        
+        // Set canvas size initially
+        updateCanvasSize();
+        
+        // Update canvas size when window is resized
+        window.addEventListener('resize', updateCanvasSize);
+    }
+
+    private addEventListeners(): void {
+        // Tool buttons
+        const toolButtons = document.querySelectorAll('.tool-btn');
+        toolButtons.forEach(button => {
+            button.addEventListener('click', () => {
+                this.setTool(button.id);
+                
+                // Deselect any selected shapes when changing tools
+                if (button.id !== 'navigation' && this.transformer) {
+                    this.select([]);
+                    this.uiLayer.draw();
+                }
+            });
+        });
+
+        // Color and size controls
+        const colorInput = document.getElementById('color') as HTMLInputElement;
+        const sizeInput = document.getElementById('size') as HTMLInputElement;
+        const sizeValue = document.getElementById('size-value') as HTMLSpanElement;
+
+        colorInput.addEventListener('input', e => {
+            this.currentColor = (e.target as HTMLInputElement).value;
+        });
+
+        // Fill for new closed shapes (off by default)
+        const fillEnabledInput = document.getElementById('fill-enabled') as HTMLInputElement;
+        const fillColorInput = document.getElementById('fill-color') as HTMLInputElement;
+        if (fillEnabledInput && fillColorInput) {
+            fillEnabledInput.addEventListener('change', () => {
+                this.fillEnabled = fillEnabledInput.checked;
+            });
+            fillColorInput.addEventListener('input', () => {
+                this.fillColor = fillColorInput.value;
+            });
+        }
+
+        sizeInput.addEventListener('input', e => {
+            this.currentSize = parseInt((e.target as HTMLInputElement).value);
+            sizeValue.textContent = this.currentSize.toString();
+            this.textInput.style.fontSize = `${this.currentSize}px`;
+        });
+
+        // Erasing or adding polygon vertices across a draggable shape must not move it
+        this.stage.on('dragstart', (e: any) => {
+            if ((this.currentTool === 'eraser' || this.polygonShape) && e.target !== this.stage) {
+                e.target.stopDrag();
+            }
+        });
+
+        // Eraser mode (pixel or object)
+        document.querySelectorAll('input[name="eraser-mode"]').forEach(input => {
+            input.addEventListener('change', e => {
+                this.eraserMode = (e.target as HTMLInputElement).value as 'pixel' | 'object';
+            });
+        });
+
+        // Pencil options
+        const brushSelect = document.getElementById('brush-preset') as HTMLSelectElement;
+        const smoothingInput = document.getElementById('pencil-smoothing') as HTMLInputElement;
+        const smoothingValue = document.getElementById('pencil-smoothing-value') as HTMLSpanElement;
+        if (brushSelect && smoothingInput && smoothingValue) {
+            brushSelect.addEventListener('change', () => {
+                this.brushPreset = brushSelect.value as BrushPreset;
+            });
+            smoothingInput.addEventListener('input', () => {
+                this.pencilSmoothing = parseInt(smoothingInput.value, 10) / 100;
+                smoothingValue.textContent = smoothingInput.value;
+            });
+        } else {
+            console.error('Pencil option elements not found');
+        }
+
+        // Shape options
+        const arrowEndsSelect = document.getElementById('arrow-ends') as HTMLSelectElement;
+        const arrowHeadSelect = document.getElementById('arrow-head') as HTMLSelectElement;
+        const sidesInput = document.getElementById('shape-sides') as HTMLInputElement;
+        const cornerRadiusInput = document.getElementById('corner-radius') as HTMLInputElement;
+        const cornerRadiusValue = document.getElementById('corner-radius-value') as HTMLSpanElement;
+
+        if (arrowEndsSelect && arrowHeadSelect && sidesInput && cornerRadiusInput && cornerRadiusValue) {
+            arrowEndsSelect.addEventListener('change', () => {
+                this.arrowEnds = arrowEndsSelect.value as 'end' | 'start' | 'both';
+            });
+            arrowHeadSelect.addEventListener('change', () => {
+                this.arrowHeadStyle = arrowHeadSelect.value as 'filled' | 'outline';
+            });
+            sidesInput.addEventListener('change', () => {
+                this.shapeSides = Math.min(24, Math.max(3, parseInt(sidesInput.value, 10) || 5));
+                sidesInput.value = this.shapeSides.toString();
+            });
+            cornerRadiusInput.addEventListener('input', () => {
+                this.cornerRadius = parseInt(cornerRadiusInput.value, 10);
+                cornerRadiusValue.textContent = this.cornerRadius.toString();
+            });
+        } else {
+            console.error('Shape option elements not found');
+        }
+
+        // Selection and grouping
+        const selectAllButton = document.getElementById('select-all');
+        const groupButton = document.getElementById('group');
+        const ungroupButton = document.getElementById('ungroup');
+        if (selectAllButton && groupButton && ungroupButton) {
+            selectAllButton.addEventListener('click', () => this.selectAll());
+            groupButton.addEventListener('click', () => this.groupSelection());
+            ungroupButton.addEventListener('click', () => this.ungroupSelection());
+        } else {
+            console.error('Arrange buttons not found');
+        }
+
+        // Clear button
+        const clearButton = document.getElementById('clear');
+        if (clearButton) {
+            clearButton.addEventListener('click', () => this.clearCanvas());
+        }
+
+        // Add double-click handler for text creation
+        this.stage.on('dblclick', (e: any) => {
+            // Double-click closes a polygon that is being drawn
+            if (this.polygonShape) {
+                this.finishPolygon();
+                return;
+            }
+
+            // Double-clicking an image, masked or not, shows its crop handles
+            if (e.target !== this.stage && !this.cropSession && !this.isNavigationMode && this.currentTool !== 'eraser') {
+                const node = this.selectableNode(e.target);
+                const image = node ? maskedImage(node) : null;
+                if (image) {
+                    this.startCrop(image);
+                    return;
+                }
+            }
+            
+            // Only create new text if:
+            // 1. Text tool is selected
+            // 2. User clicked on empty space (not on existing text or other shape)
+            // 3. Not in navigation mode
+            if (this.currentTool === 'text' && e.target === this.stage && !this.isNavigationMode) {
+                this.createText(e);
+            }
+        });
+
+
+
+        // Canvas events for drawing and shape creation
+        this.stage.on('mousedown touchstart', (e: any) => {
+            // Prevent default only for touch events to avoid scrolling issues
+            if (e.evt.type.includes('touch')) {
+                e.evt.preventDefault();
+            }
+            
+            // A second finger turns the gesture into a pinch zoom
+            if (e.evt.touches && e.evt.touches.length > 1) {
+                this.cancelDrawing();
+                this.startPinch(e.evt.touches);
+                return;
+            }
+            
+            // Skip if in navigation mode - allow dragging
+            if (this.isNavigationMode) {
+                return;
+            }
+            
+            // The right button opens the context menu instead of drawing
+            if (e.evt.button === 2) {
+                return;
+            }
+
+            // While cropping, the crop handles take the pointer and pressing elsewhere applies the crop
+            if (this.cropSession) {
+                if (!this.cropSession.contains(e.target)) {
+                    this.finishCrop(true);
+                }
+                return;
+            }
+            
+            // Check if we clicked on an existing shape; the eraser and an unfinished polygon ignore shapes
+            const clickedOnShape = e.target !== this.stage;
+            if (clickedOnShape && this.currentTool !== 'eraser' && !this.polygonShape) {
+                // If we clicked on a shape, handle selection
+                // Use Konva's getIntersection which returns the topmost shape
+                // This correctly handles Z-index and returns the shape that should receive the click
+                const topShape = this.stage.getIntersection(this.stage.getPointerPosition());
+                const node = this.selectableNode(topShape || e.target);
+                
+                if (node) {
+                    const selected = this.transformer.nodes();
+                    if (e.evt.shiftKey) {
+                        // Shift-click adds to or removes from the selection
+                        this.select(selected.includes(node)
+                            ? selected.filter((other: any) => other !== node)
+                            : [...selected, node]);
+                    } else if (!selected.includes(node)) {
+                        // Clicking part of a multi-selection keeps it so it can be dragged together
+                        this.select([node]);
+                    }
+                } else if (this.isNodeLocked(this.selectableNode(topShape || e.target, true))) {
+                    // Locked nodes act like empty canvas, e.g. to draw or marquee over a locked background
+                    this.startDrawing(e);
+                }
+            } else {
+                // We clicked on empty canvas (or are erasing), start a new shape or drawing
+                this.startDrawing(e);
+            }
+        });
+
+        this.stage.on('mousemove touchmove', (e: any) => {
+            if (e.evt.type.includes('touch')) {
+                e.evt.preventDefault();
+            }
+            
+            if (this.pinch) {
+                this.updatePinch(e.evt.touches);
+                return;
+            }
+            
+            // Skip if in navigation mode
+            if (!this.isNavigationMode) {
+                this.draw(e);
+            }
+        });
+
+        // Pen input for the pencil: pressure, and every sample the browser
+        // coalesced since the last event so fast strokes stay smooth
+        const container = this.stage.container();
+        container.addEventListener('pointerdown', (e: PointerEvent) => {
+            this.pointerPressure = pointerPressure(e);
+        });
+        container.addEventListener('pointermove', (e: PointerEvent) => {
+            if (!this.isDrawing || this.currentTool !== 'pencil' || !this.activeShape || this.isNavigationMode) return;
+            
+            const coalesced = typeof e.getCoalescedEvents === 'function' ? e.getCoalescedEvents() : [];
+            (coalesced.length > 0 ? coalesced : [e]).forEach(sample => {
+                this.addStrokeSample(this.clientToCanvas(sample.clientX, sample.clientY), pointerPressure(sample));
+            });
+            this.activeShape.points(strokeOutline(this.strokePoints, this.currentSize, BRUSH_PRESETS[this.brushPreset]));
+            this.activeLayer.batchDraw();
+        });
+
+        this.stage.on('mouseup touchend', (e: any) => {
+            // The pinch ends when fewer than two fingers remain
+            if (this.pinch) {
+                if (!e.evt.touches || e.evt.touches.length < 2) this.pinch = null;
+                return;
+            }
+            
+            // If not in navigation mode, handle drawing stop
+            if (!this.isNavigationMode) {
+                this.stopDrawing(e);
+            }
+        });
+    }
+
+    private initializeMenu(): void {
+        const menuButton = document.getElementById('menu-button');
+        const menuDropdown = document.getElementById('menu-dropdown');
+        const savePdfButton = document.getElementById('save-pdf');
+        const saveProjectButton = document.getElementById('save-project');
+        const openProjectButton = document.getElementById('open-project');
+        const newDocumentButton = document.getElementById('new-document');
+        const browseDocumentsButton = document.getElementById('browse-documents');
+        const exportImageButton = document.getElementById('export-image');
+        const exportSvgButton = document.getElementById('export-svg');
+        const importSvgButton = document.getElementById('import-svg');
+        const insertImageButton = document.getElementById('insert-image');
+        const documentSetupButton = document.getElementById('document-setup');
+
+        if (!menuButton || !menuDropdown || !savePdfButton || !saveProjectButton || !openProjectButton ||
+            !newDocumentButton || !browseDocumentsButton || !exportImageButton || !exportSvgButton || !importSvgButton ||
+            !insertImageButton || !documentSetupButton) {
+            console.error('Menu elements not found');
+            return;
+        }
+
+        // Toggle menu dropdown
+        menuButton.addEventListener('click', (e) => {
+            e.stopPropagation(); // Prevent event from bubbling to document
+            menuDropdown.classList.toggle('active');
+            if (menuDropdown.classList.contains('active')) {
+                this.renderRecentDocuments();
+            }
+            
+            // Log for debugging
+            console.log('Menu clicked, dropdown is now:', menuDropdown.classList.contains('active') ? 'visible' : 'hidden');
+        });
+
+        // Close menu when clicking outside
+        document.addEventListener('click', (e) => {
+            if (!menuButton.contains(e.target as Node) && !menuDropdown.contains(e.target as Node)) {
+                menuDropdown.classList.remove('active');
+            }
+        });
+
+        // Handle save as PDF
+        const pdfExportDialog = new PdfExportDialog(options => this.exportToPDF(options));
+        savePdfButton.addEventListener('click', (e) => {
+            e.stopPropagation(); // Prevent event from bubbling
+            pdfExportDialog.show(this.frameNodes().length > 0);
+            menuDropdown.classList.remove('active');
+        });
+
+        // Handle canvas size and mode
+        const documentSetupDialog = new DocumentSetupDialog(settings => {
+            this.applyCanvasSettings(settings);
+            this.scheduleAutosave();
+        });
+        documentSetupButton.addEventListener('click', (e) => {
+            e.stopPropagation();
+            documentSetupDialog.show(this.canvasSettings);
+            menuDropdown.classList.remove('active');
+        });
+
+        // Handle document library
+        newDocumentButton.addEventListener('click', (e) => {
+            e.stopPropagation();
+            this.newDocument();
+            menuDropdown.classList.remove('active');
+        });
+
+        browseDocumentsButton.addEventListener('click', (e) => {
+            e.stopPropagation();
+            if (this.documentBrowser) {
+                this.documentBrowser.show();
+            } else {
+                alert('The document library is unavailable because local storage could not be opened.');
+            }
+            menuDropdown.classList.remove('active');
+        });
+
+        // Handle raster image export
+        const rasterExportDialog = new RasterExportDialog(options => this.exportRaster(options));
+        exportImageButton.addEventListener('click', (e) => {
+            e.stopPropagation();
+            rasterExportDialog.show(this.transformer.nodes().length > 0);
+            menuDropdown.classList.remove('active');
+        });
+
+        // Handle SVG export/import
+        exportSvgButton.addEventListener('click', (e) => {
+            e.stopPropagation();
+            this.exportToSVG();
+            menuDropdown.classList.remove('active');
+        });
+
+        importSvgButton.addEventListener('click', (e) => {
+            e.stopPropagation();
+            this.importSVGFile();
+            menuDropdown.classList.remove('active');
+        });
+
+        // Handle inserting image files
+        insertImageButton.addEventListener('click', (e) => {
+            e.stopPropagation();
+            this.chooseAndInsertImages();
+            menuDropdown.classList.remove('active');
+        });
+
+        // Handle save/open project
+        saveProjectButton.addEventListener('click', (e) => {
+            e.stopPropagation();
+            this.saveProject();
+            menuDropdown.classList.remove('active');
+        });
+
+        openProjectButton.addEventListener('click', (e) => {
+            e.stopPropagation();
+            this.openProject();
+            menuDropdown.classList.remove('active');
+        });
+    }
+
+    private serializeProject(): ProjectFile {
+        const layers = userLayers(this.stage).map(layer => serializeNode(layer));
+        return {
+            format: PROJECT_FORMAT,
+            version: PROJECT_FORMAT_VERSION,
+            documentName: this.documentName,
+            canvas: { ...this.canvasSettings },
+            stage: {
+                x: this.stage.x(),
+                y: this.stage.y(),
+                scale: this.stage.scaleX()
+            },
+            layers,
+            activeLayerId: this.activeLayer.id(),
+            guides: this.guides ? this.guides.serialize() : [],
+            images: packImages(layers)
+        };
+    }
+
+    private saveProject(): void {
+        try {
+            const json = JSON.stringify(this.serializeProject());
+            const blob = new Blob([json], { type: 'application/json' });
+            const url = URL.createObjectURL(blob);
+
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `${this.documentName}${PROJECT_FILE_EXTENSION}`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error('Error saving project:', error);
+            alert('Failed to save project. Please try again.');
+        }
+    }
+
+    private openProject(): void {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = `${PROJECT_FILE_EXTENSION},.json,application/json`;
+
+        input.addEventListener('change', async () => {
+            const file = input.files && input.files[0];
+            if (!file) return;
+
+            try {
+                const project = parseProject(await file.text());
+                await this.loadProject(project);
+                
+                // An opened file becomes a new document in local storage
+                this.documentId = this.createDocumentId();
+                this.scheduleAutosave();
+            } catch (error) {
+                console.error('Error opening project:', error);
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                alert(`Failed to open project: ${message}`);
+            }
+        });
+
+        input.click();
+    }
+
+    private async loadProject(project: ProjectFile): Promise<void> {
+        // Build every node before touching the canvas so a bad file leaves it intact
+        unpackImages(project.layers, project.images);
+        const layers = await createNodes(project.layers);
+        if (layers.length === 0) {
+            layers.push(createUserLayer(this.createLayerId(), 'Layer 1'));
+        }
+        layers.forEach(layer => this.hydrateNode(layer));
+        this.replaceLayers(layers, project.activeLayerId);
+
+        this.applyCanvasSettings(project.canvas);
+        if (this.guides) {
+            this.guides.load(project.guides || []);
+        }
+        const scale = project.stage.scale || 1;
+        this.stage.scale({ x: scale, y: scale });
+        this.stage.position({ x: project.stage.x, y: project.stage.y });
+        this.limitDragBoundaries();
+        this.viewChanged();
+        this.setDocumentName(project.documentName);
+
+        // The loaded document starts with a fresh history
+        this.history.clear();
+    }
+
+    // Swap every user layer for the given ones, keeping the overlay on top
+    private replaceLayers(layers: any[], activeLayerId: string | null): void {
+        this.select([]);
+        userLayers(this.stage).forEach(layer => layer.destroy());
+
+        layers.forEach(layer => this.stage.add(layer));
+        this.uiLayer.moveToTop();
+
+        const active = layers.find(layer => layer.id() === activeLayerId);
+        this.activeLayer = active || layers[layers.length - 1];
+        if (this.layersPanel) {
+            this.layersPanel.render();
+        }
+    }
+
+    // Re-attach the event handlers that live outside the serialized attrs
+    private hydrateNode(node: any): void {
+        if (node.getClassName() === 'Text' && node.hasName('text')) {
+            this.attachTextEditor(node);
+        }
+        if (node.getClassName() === 'Image') {
+            watchAdjustments(node);
+        }
+        const mask = maskShape(node);
+        if (mask) {
+            node.clipFunc(maskClipFunc(mask));
+        }
+
+        if (typeof node.getChildren === 'function') {
+            node.getChildren().forEach((child: any) => this.hydrateNode(child));
+        }
+    }
+
+    // Every node that makes up the drawing (excludes the transformer)
+    private contentNodes(): any[] {
+        const nodes: any[] = [];
+        userLayers(this.stage)
+            .filter(layer => layer.visible())
+            .forEach(layer => nodes.push(...layer.getChildren()));
+        return nodes;
+    }
+
+    // Region to export, in canvas coordinates
+    private exportRegionRect(region: ExportRegion): Rect | null {
+        switch (region) {
+            case 'viewport': {
+                const inverse = this.stage.getAbsoluteTransform().copy().invert();
+                const topLeft = inverse.point({ x: 0, y: 0 });
+                const bottomRight = inverse.point({ x: this.stage.width(), y: this.stage.height() });
+                return {
+                    x: topLeft.x,
+                    y: topLeft.y,
+                    width: bottomRight.x - topLeft.x,
+                    height: bottomRight.y - topLeft.y
+                };
+            }
+            case 'selection':
+                return nodesBounds(this.transformer.nodes());
+            case 'content':
+                return nodesBounds(this.contentNodes());
+            case 'canvas':
+                // An infinite canvas extends as far as its content
+                return this.canvasSettings.mode === 'artboard'
+                    ? { x: 0, y: 0, width: this.canvasSettings.width, height: this.canvasSettings.height }
+                    : nodesBounds(this.contentNodes());
+        }
+    }
+
+    private exportRaster(options: RasterExportOptions): void {
+        const region = this.exportRegionRect(options.region);
+        if (!region || region.width <= 0 || region.height <= 0) {
+            alert('There is nothing to export in the chosen region.');
             return;
         }
 
         try {
-            // Create a clone of the stage for export to avoid modifying the original
-            const clonedStage = this.stage.clone();
-            
-            // Add a white background rectangle to the cloned stage
-            const backgroundRect = new Konva.Rect({
-                x: 0,
-                y: 0,
-                width: clonedStage.width(),
-                height: clonedStage.height(),
-                fill: 'white',
-                listening: false
-            });
-            
-            // Insert the background as the first element in the first layer
-            const firstLayer = clonedStage.getLayers()[0];
-            firstLayer.add(backgroundRect);
-            backgroundRect.moveToBottom();
-            
-            // Convert cloned stage with background to data URL
-            const dataURL = clonedStage.toDataURL({ 
-                pixelRatio: 2, // Higher quality
-                mimeType: 'image/png', // Use PNG instead of JPEG for better quality
-                quality: 1
+            const mimeType = RASTER_MIME_TYPES[options.format];
+            const dataURL = renderRegion(this.stage, region, {
+                mimeType,
+                pixelRatio: options.pixelRatio,
+                quality: options.quality,
+                background: options.transparent ? null : this.canvasSettings.background,
+                hiddenNodes: this.exportHiddenNodes()
             });
-            
-            // Create image element from data URL
-            const img = new Image();
-            img.src = dataURL;
-            
-            img.onload = () => {
-                console.log('Image loaded, creating PDF...');
-                
-                const pdf = new window.jspdf.jsPDF({
-                    orientation: 'landscape',
-                    unit: 'px',
-                    format: [this.stage.width(), this.stage.height()]
+
+            // Browsers fall back to PNG for formats they cannot encode
+            if (!dataURL.startsWith(`data:${mimeType}`)) {
+                alert(`This browser cannot export ${options.format.toUpperCase()} images.`);
+                return;
+            }
+
+            downloadDataURL(dataURL, `${this.documentName}.${RASTER_EXTENSIONS[options.format]}`);
+        } catch (error) {
+            console.error('Error exporting image:', error);
+            alert('Failed to export image. The region may be too large; try a smaller pixel ratio.');
+        }
+    }
+
+    private exportToSVG(): void {
+        const bounds = nodesBounds(this.contentNodes());
+        if (!bounds) {
+            alert('There is nothing to export.');
+            return;
+        }
+
+        try {
+            const markup = exportSVG(userLayers(this.stage), bounds, [this.transformer, ...this.frameNodes()]);
+            const blob = new Blob([markup], { type: 'image/svg+xml' });
+            const url = URL.createObjectURL(blob);
+            downloadDataURL(url, `${this.documentName}.svg`);
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error('Error exporting SVG:', error);
+            alert('Failed to export SVG. Please try again.');
+        }
+    }
+
+    private importSVGFile(): void {
+        if (!this.canEditActiveLayer()) return;
+
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.svg,image/svg+xml';
+
+        input.addEventListener('change', async () => {
+            const file = input.files && input.files[0];
+            if (!file) return;
+
+            try {
+                const nodes = await importSVG(await file.text());
+                if (nodes.length === 0) {
+                    alert('The SVG file does not contain any supported shapes.');
+                    return;
+                }
+
+                nodes.forEach(node => {
+                    this.activeLayer.add(node);
+                    this.hydrateNode(node);
                 });
+                this.history.record(new AddNodesCommand('Import SVG', capturePlacements(nodes)));
 
-                // Calculate the maximum dimensions that fit on the PDF
-                const pdfWidth = pdf.internal.pageSize.getWidth();
-                const pdfHeight = pdf.internal.pageSize.getHeight();
-                
-                const widthRatio = pdfWidth / img.width;
-                const heightRatio = pdfHeight / img.height;
-                const ratio = Math.min(widthRatio, heightRatio);
-                
-                const canvasWidth = img.width * ratio;
-                const canvasHeight = img.height * ratio;
-                
-                const marginX = (pdfWidth - canvasWidth) / 2;
-                const marginY = (pdfHeight - canvasHeight) / 2;
-                
-                // Add image to PDF
-                pdf.addImage(img, 'PNG', marginX, marginY, canvasWidth, canvasHeight);
-                
-                // Download PDF
-                pdf.save(`${this.documentName}.pdf`);
-                console.log('PDF generated and downloaded');
-            };
-            
-            img.onerror = (error) => {
-                console.error('Error loading image for PDF:', error);
-                alert('Failed to generate PDF. Please try again.');
-            };
+                // Select what was imported so it can be moved into place
+                this.select(nodes.filter(node => node.globalCompositeOperation() !== 'destination-out'));
+                this.activeLayer.batchDraw();
+            } catch (error) {
+                console.error('Error importing SVG:', error);
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                alert(`Failed to import SVG: ${message}`);
+            }
+        });
+
+        input.click();
+    }
+
+    // Frames are rectangles drawn with the frame tool, each exported as its own PDF page
+    private frameNodes(): any[] {
+        const frames: any[] = [];
+        userLayers(this.stage)
+            .filter(layer => layer.visible())
+            .forEach(layer => frames.push(...layer.find('.frame').filter((node: any) => node.isVisible())));
+        return frames;
+    }
+
+    private exportToPDF(options: PdfExportOptions): void {
+        if (!window.jspdf) {
+            console.error('jsPDF not loaded');
+            alert('PDF export library not loaded. Please try again later.');
+            return;
+        }
+
+        let regions: Rect[] = [];
+        if (options.layout === 'frames') {
+            // Read frames top to bottom, then left to right
+            regions = this.frameNodes()
+                .map((frame: any) => frame.getClientRect({ relativeTo: frame.getLayer(), skipStroke: true }))
+                .sort((a: Rect, b: Rect) => (a.y - b.y) || (a.x - b.x));
+        } else if (options.layout === 'tile') {
+            regions = tilePages(this.exportRegionRect('canvas')!, options);
+        } else {
+            const region = this.exportRegionRect(options.layout);
+            if (region && region.width > 0 && region.height > 0) {
+                regions = [region];
+            }
+        }
+
+        if (regions.length === 0) {
+            alert('There is nothing to export.');
+            return;
+        }
+
+        try {
+            const pdf = createPdf(userLayers(this.stage), regions, options, [this.transformer], ['frame']);
+            pdf.save(`${this.documentName}.pdf`);
         } catch (error) {
             console.error('Error exporting to PDF:', error);
-            alert('Failed to export as PDF. Please try again.');
+            const message = error instanceof Error ? error.message : String(error);
+            alert(`Failed to export as PDF: ${message}`);
         }
     }
 
@@ -1258,6 +3631,9 @@ class DrawingApp {
     }
     
     private displayThumbnails(): void {
+        // Generated images are part of the autosaved document
+        this.scheduleAutosave();
+        
         // Clear container
         this.thumbnailsContainer.innerHTML = '';
         
@@ -1282,32 +3658,23 @@ class DrawingApp {
             // Show loader until image is loaded
             thumbnail.style.display = 'none';
             
-            // Add double-click event for direct placement
-            thumbnail.addEventListener('dblclick', () => {
-                // Mark as selected
+            // Click to pick the image, then click the canvas to place it
+            thumbnail.addEventListener('click', () => {
                 this.selectImage(index);
-                
-                // Get the canvas center coordinates
-                const canvasCenter = {
-                    x: this.canvas.width / 2,
-                    y: this.canvas.height / 2
-                };
-                
-                // Place image directly at canvas center
-                const selectedImage = this.generatedImages[index];
-                if (selectedImage) {
-                    this.placeImageOnCanvas(selectedImage.url, canvasCenter);
-                    
-                    // Reset to pencil tool
-                    setTimeout(() => {
-                        this.currentTool = 'pencil';
-                        const pencilBtn = document.getElementById('pencil');
-                        if (pencilBtn) {
-                            document.querySelectorAll('.tool-btn').forEach(btn => btn.classList.remove('active'));
-                            pencilBtn.classList.add('active');
-                        }
-                    }, 100);
-                }
+            });
+            
+            // Double-click places it in the middle of the view
+            thumbnail.addEventListener('dblclick', () => {
+                const view = this.exportRegionRect('viewport')!;
+                this.placeImageOnCanvas(image.url, { x: view.x + view.width / 2, y: view.y + view.height / 2 });
+            });
+            
+            // Or drag it onto the canvas
+            thumbnail.draggable = true;
+            thumbnail.addEventListener('dragstart', (e: DragEvent) => {
+                if (!e.dataTransfer) return;
+                e.dataTransfer.setData(this.THUMBNAIL_DRAG_TYPE, image.url);
+                e.dataTransfer.effectAllowed = 'copy';
             });
             
             // Add load event to hide loader when image loads
@@ -1338,6 +3705,21 @@ class DrawingApp {
         }
     }
     
+    // Switch tools, highlighting the tool's button if it has one
+    private setTool(tool: string): void {
+        document.querySelectorAll('.tool-btn').forEach(btn => btn.classList.toggle('active', btn.id === tool));
+        if (tool !== 'image') {
+            document.querySelectorAll('.image-thumbnail.selected').forEach(thumb => thumb.classList.remove('selected'));
+            this.selectedImageIndex = -1;
+        }
+        this.finishPolygon();
+        this.currentTool = tool;
+        this.updateToolOptions();
+        
+        // Navigation mode pans the canvas instead of drawing
+        this.toggleNavigationMode(tool === 'navigation');
+    }
+
     private selectImage(index: number): void {
         // Update selected image
         this.selectedImageIndex = index;
@@ -1351,29 +3733,58 @@ class DrawingApp {
             }
         });
         
-        // Set tool to 'image' (custom tool for placing images)
-        this.currentTool = 'image';
-        
-        // Remove active class from all tool buttons
-        document.querySelectorAll('.tool-btn').forEach(btn => btn.classList.remove('active'));
+        // The image tool places the picked image where the canvas is clicked
+        this.setTool('image');
     }
 
     private startDrawing(e: any): void {
+        // The image tool places the image picked in the thumbnails
+        if (this.currentTool === 'image') {
+            const image = this.generatedImages[this.selectedImageIndex];
+            if (image) {
+                this.placeImageOnCanvas(image.url, this.stage.getRelativePointerPosition());
+            }
+            return;
+        }
+        
+        // The select tool drags out a marquee on empty canvas
+        if (this.currentTool === 'select') {
+            this.isDrawing = true;
+            this.startMarquee(this.stage.getRelativePointerPosition(), e.evt.shiftKey);
+            return;
+        }
+        
         // When starting to draw, deselect any selected shapes
-        this.transformer.nodes([]);
-        this.shapeLayer.draw();
+        this.select([]);
+        this.uiLayer.draw();
         
         // Skip text tool in startDrawing, it's handled by double-click now
         if (this.currentTool === 'text') {
             return;
         }
         
+        // The object eraser works across layers, everything else draws on the active one
+        if (!(this.currentTool === 'eraser' && this.eraserMode === 'object') && !this.canEditActiveLayer()) {
+            return;
+        }
+        
+        // Shape tools snap their corners and ends; targets stay fixed until the shape is done
+        if (this.snapsWhileDrawing() && !this.snapTargetsCache) {
+            this.snapTargetsCache = this.snapTargets(this.polygonShape ? [this.polygonShape] : []);
+        }
+        
+        // The polygon tool adds one vertex per click instead of dragging
+        if (this.currentTool === 'polygon') {
+            this.addPolygonVertex(this.drawingPointer());
+            return;
+        }
+        
         // For shape drawing tools
         this.isDrawing = true;
-        const pos = this.stage.getPointerPosition();
+        const pos = this.drawingPointer();
         this.startPoint = { x: pos.x, y: pos.y };
 
-        if (this.currentTool === 'circle' || this.currentTool === 'rectangle' || this.currentTool === 'square') {
+        if (this.currentTool === 'circle' || this.currentTool === 'rectangle' || this.currentTool === 'square' || this.currentTool === 'frame') {
             // Create shape based on current tool
             if (this.currentTool === 'circle') {
                 this.activeShape = new Konva.Ellipse({
@@ -1381,6 +3792,7 @@ class DrawingApp {
                     y: pos.y,
                     radiusX: 0,
                     radiusY: 0,
+                    fill: this.shapeFill(),
                     stroke: this.currentColor,
                     strokeWidth: this.currentSize,
                     draggable: true,
@@ -1392,73 +3804,183 @@ class DrawingApp {
                     y: pos.y,
                     width: 0,
                     height: 0,
+                    fill: this.shapeFill(),
                     stroke: this.currentColor,
                     strokeWidth: this.currentSize,
+                    cornerRadius: this.cornerRadius || undefined,
                     draggable: true,
                     name: 'shape'
                 });
+            } else if (this.currentTool === 'frame') {
+                // Frames mark out PDF pages and are left out of the exported drawing
+                this.activeShape = new Konva.Rect({
+                    x: pos.x,
+                    y: pos.y,
+                    width: 0,
+                    height: 0,
+                    stroke: '#9d7db1',
+                    strokeWidth: 2,
+                    dash: [8, 4],
+                    strokeScaleEnabled: false,
+                    draggable: true,
+                    name: 'shape frame'
+                });
             }
             
             if (this.activeShape) {
-                this.shapeLayer.add(this.activeShape);
+                this.activeLayer.add(this.activeShape);
             }
-        } else if (this.currentTool === 'pencil') {
-            // Enhanced pencil tool with Konva features
-            
-            // Store drawing points for simplification
-            this.drawingPoints = [pos.x, pos.y, pos.x, pos.y]; // Start with duplicate points to have a visible dot
-            
-            // Create a Konva.Line for freehand drawing with enhanced settings
-            this.activeShape = new Konva.Line({
-                points: this.drawingPoints,
+        } else if (this.currentTool === 'line' || this.currentTool === 'arrow') {
+            const config = {
+                points: [pos.x, pos.y, pos.x, pos.y],
                 stroke: this.currentColor,
                 strokeWidth: this.currentSize,
                 lineCap: 'round',
                 lineJoin: 'round',
-                tension: 0.5, // Controls curve smoothness (0-1)
-                globalCompositeOperation: 'source-over',
+                draggable: true,
+                name: 'shape'
+            };
+            if (this.currentTool === 'arrow') {
+                // Heads grow with the stroke so they stay visible on thick arrows
+                const headSize = Math.max(10, this.currentSize * 2.5);
+                this.activeShape = new Konva.Arrow({
+                    ...config,
+                    pointerLength: headSize,
+                    pointerWidth: headSize,
+                    pointerAtBeginning: this.arrowEnds !== 'end',
+                    pointerAtEnding: this.arrowEnds !== 'start',
+                    fill: this.arrowHeadStyle === 'filled' ? this.currentColor : undefined
+                });
+            } else {
+                this.activeShape = new Konva.Line(config);
+            }
+            this.activeLayer.add(this.activeShape);
+        } else if (this.currentTool === 'regular-polygon') {
+            this.activeShape = new Konva.RegularPolygon({
+                x: pos.x,
+                y: pos.y,
+                sides: this.shapeSides,
+                radius: 0,
+                fill: this.shapeFill(),
+                stroke: this.currentColor,
+                strokeWidth: this.currentSize,
+                lineJoin: 'round',
+                draggable: true,
+                name: 'shape'
+            });
+            this.activeLayer.add(this.activeShape);
+        } else if (this.currentTool === 'star') {
+            this.activeShape = new Konva.Star({
+                x: pos.x,
+                y: pos.y,
+                numPoints: this.shapeSides,
+                innerRadius: 0,
+                outerRadius: 0,
+                fill: this.shapeFill(),
+                stroke: this.currentColor,
+                strokeWidth: this.currentSize,
+                lineJoin: 'round',
+                draggable: true,
+                name: 'shape'
+            });
+            this.activeLayer.add(this.activeShape);
+        } else if (this.currentTool === 'pencil') {
+            // The stroke is a filled outline so its width can follow pen pressure
+            const brush = BRUSH_PRESETS[this.brushPreset];
+            this.strokeTarget = { x: pos.x, y: pos.y, pressure: this.pointerPressure };
+            this.strokePoints = [this.strokeTarget];
+            
+            this.activeShape = new Konva.Line({
+                points: strokeOutline(this.strokePoints, this.currentSize, brush),
+                fill: this.currentColor,
+                closed: true,
+                opacity: brush.opacity === 1 ? undefined : brush.opacity,
+                globalCompositeOperation: brush.compositeOperation,
                 name: 'shape',
                 draggable: true,
                 perfectDrawEnabled: false, // Performance optimization
                 listening: false // Disable events during drawing for better performance
             });
             
-            // Add lines to shapeLayer instead of backgroundLayer for proper dragging
-            this.shapeLayer.add(this.activeShape);
+            // Add lines to the active layer
+            this.activeLayer.add(this.activeShape);
+        } else if (this.currentTool === 'eraser' && this.eraserMode === 'object') {
+            // Object eraser: trace the path on the overlay and hide shapes as it touches them
+            this.erasedNodes = [];
+            this.lastEraserPoint = null;
+            this.activeShape = new Konva.Line({
+                points: [pos.x, pos.y, pos.x, pos.y],
+                stroke: 'rgba(157, 125, 177, 0.4)',
+                strokeWidth: this.currentSize,
+                lineCap: 'round',
+                lineJoin: 'round',
+                listening: false
+            });
+            this.uiLayer.add(this.activeShape);
+            // Hit testing works in screen coordinates
+            this.eraseObjectsAt(this.stage.getPointerPosition());
         } else if (this.currentTool === 'eraser') {
-            // For eraser, we'll create a line that acts as an eraser
+            // Pixel eraser: destination-out only clears pixels on the active layer's own canvas
             this.activeShape = new Konva.Line({
-                points: [pos.x, pos.y],
-                stroke: 'white', // Use canvas background color
+                points: [pos.x, pos.y, pos.x, pos.y],
+                stroke: 'white', // Any opaque color erases fully
                 strokeWidth: this.currentSize,
                 lineCap: 'round',
                 lineJoin: 'round',
                 tension: 0.5,
                 globalCompositeOperation: 'destination-out',
                 name: 'eraser',
-                perfectDrawEnabled: false // Performance optimization
+                perfectDrawEnabled: false, // Performance optimization
+                listening: false // Erased areas should not catch clicks meant for the canvas
             });
-            this.shapeLayer.add(this.activeShape);
+            this.activeLayer.add(this.activeShape);
         }
     }
 
     private draw(e: any): void {
+        if (this.polygonShape) {
+            this.updatePolygonPreview(this.drawingPointer(), e.evt.shiftKey);
+            return;
+        }
+        
+        if (this.marquee) {
+            this.updateMarquee(this.stage.getRelativePointerPosition());
+            return;
+        }
+        
         if (!this.isDrawing || !this.activeShape) return;
         
-        const pos = this.stage.getPointerPosition();
+        // Pointer in stage coordinates, so drawing lines up at any pan and zoom
+        const pos = this.drawingPointer();
         
         if (this.currentTool === 'pencil') {
-            // For drawing tools, add points to the line with performance optimizations
-            
-            // Add the new point to our drawing points array
-            // No need to slice or limit points while drawing - keep all points
-            this.drawingPoints.push(pos.x, pos.y);
-            
-            // Update the shape with all captured points
-            this.activeShape.points(this.drawingPoints);
-            
-            // Use batchDraw for better performance
-            this.shapeLayer.batchDraw();
+            // Pencil samples come from the pointermove listener, which also sees
+            // pen pressure and the samples browsers coalesce between frames
+            return;
+        } else if (this.currentTool === 'line' || this.currentTool === 'arrow') {
+            // Shift constrains the angle to 15° steps
+            const end = e.evt.shiftKey ? this.snapToAngle(this.startPoint, pos) : pos;
+            this.activeShape.points([this.startPoint.x, this.startPoint.y, end.x, end.y]);
+            this.activeLayer.batchDraw();
+        } else if (this.currentTool === 'regular-polygon' || this.currentTool === 'star') {
+            // Drag out from the centre; the distance sets the size
+            const radius = Math.hypot(pos.x - this.startPoint.x, pos.y - this.startPoint.y);
+            if (this.currentTool === 'star') {
+                this.activeShape.outerRadius(radius);
+                this.activeShape.innerRadius(radius * this.STAR_INNER_RATIO);
+            } else {
+                this.activeShape.radius(radius);
+            }
+            this.activeLayer.batchDraw();
+        } else if (this.currentTool === 'eraser') {
+            this.activeShape.points(this.activeShape.points().concat([pos.x, pos.y]));
+            if (this.eraserMode === 'object') {
+                // Hit testing works in screen coordinates
+                this.eraseObjectsAt(this.stage.getPointerPosition());
+                this.uiLayer.batchDraw();
+            } else {
+                this.activeLayer.batchDraw();
+            }
         } else if (this.currentTool === 'circle') {
             // For circle, calculate radius based on mouse position
             const dx = pos.x - this.startPoint.x;
@@ -1469,8 +3991,8 @@ class DrawingApp {
             });
             this.activeShape.radiusX(Math.abs(dx));
             this.activeShape.radiusY(Math.abs(dy));
-            this.shapeLayer.batchDraw();
-        } else if (this.currentTool === 'rectangle') {
+            this.activeLayer.batchDraw();
+        } else if (this.currentTool === 'rectangle' || this.currentTool === 'frame') {
             // For rectangle, update width and height
             const dx = pos.x - this.startPoint.x;
             const dy = pos.y - this.startPoint.y;
@@ -1480,7 +4002,7 @@ class DrawingApp {
             });
             this.activeShape.width(Math.abs(dx));
             this.activeShape.height(Math.abs(dy));
-            this.shapeLayer.batchDraw();
+            this.activeLayer.batchDraw();
         } else if (this.currentTool === 'square') {
             // For square, ensure width and height are equal
             const dx = pos.x - this.startPoint.x;
@@ -1493,61 +4015,277 @@ class DrawingApp {
             });
             this.activeShape.width(size);
             this.activeShape.height(size);
-            this.shapeLayer.batchDraw();
+            this.activeLayer.batchDraw();
         }
     }
 
     private stopDrawing(e: any): void {
         if (!this.isDrawing) return;
         this.isDrawing = false;
+        this.endDrawingSnap();
+        
+        if (this.marquee) {
+            this.finishMarquee();
+            return;
+        }
         
         if (!this.activeShape) return;
         
+        // The object eraser removes everything it touched in one undoable step
+        if (this.currentTool === 'eraser' && this.eraserMode === 'object') {
+            this.activeShape.destroy();
+            this.activeShape = null;
+            this.uiLayer.batchDraw();
+            
+            const nodes = this.erasedNodes;
+            this.erasedNodes = [];
+            if (nodes.length > 0) {
+                nodes.forEach(node => node.visible(true));
+                this.history.execute(new RemoveNodesCommand('Erase objects', nodes));
+            }
+            return;
+        }
+        
         // Clean up zero-sized shapes
-        if ((this.currentTool === 'circle' && this.activeShape.radiusX() === 0 && this.activeShape.radiusY() === 0) ||
-            ((this.currentTool === 'rectangle' || this.currentTool === 'square') && 
-             (this.activeShape.width() === 0 || this.activeShape.height() === 0))) {
+        if (this.isEmptyShape(this.activeShape)) {
             this.activeShape.destroy();
+            this.activeShape = null;
+            this.activeLayer.batchDraw();
+            return;
         } else if (this.currentTool === 'pencil') {
-            // For pencil, we might want to simplify the path for better performance
+            // End where the pointer is, then keep only the samples needed for the shape
+            const last = this.strokePoints[this.strokePoints.length - 1];
+            if (this.strokeTarget && (this.strokeTarget.x !== last.x || this.strokeTarget.y !== last.y)) {
+                this.strokePoints.push(this.strokeTarget);
+            }
+            const points = simplifyPoints(this.strokePoints, this.SIMPLIFY_TOLERANCE / this.stage.scaleX());
+            this.activeShape.points(strokeOutline(points, this.currentSize, BRUSH_PRESETS[this.brushPreset]));
+            
             // Enable events now that drawing is complete
             this.activeShape.listening(true);
             
             // Set additional properties to ensure proper dragging
             this.activeShape.draggable(true);
             
-            // Reset drawing points array
-            this.drawingPoints = [];
+            this.strokePoints = [];
+            this.strokeTarget = null;
             
-            // Select the shape for manipulation if it's not tiny
-            if (this.activeShape.points().length > 4) { // At least two points
-                this.transformer.nodes([this.activeShape]);
+            // Select the shape for manipulation unless it was a single tap
+            if (points.length > 1) {
+                this.select([this.activeShape]);
             }
         } else if (this.currentTool !== 'eraser') {
             // Select the shape for immediate manipulation (except for eraser)
-            this.transformer.nodes([this.activeShape]);
+            this.select([this.activeShape]);
         }
         
+        // Record the new shape so it can be undone
+        const label = this.currentTool === 'pencil' ? 'Draw' : this.currentTool === 'eraser' ? 'Erase' :
+            this.currentTool === 'frame' ? 'Add frame' : 'Add shape';
+        this.history.record(new AddNodesCommand(label, capturePlacements([this.activeShape])));
+        
         // Draw the layers
-        this.shapeLayer.batchDraw();
+        this.activeLayer.batchDraw();
         
         this.activeShape = null;
     }
 
+    // Ease the stroke towards a new pointer sample by the smoothing amount
+    private addStrokeSample(pos: Point, pressure: number): void {
+        this.strokeTarget = { x: pos.x, y: pos.y, pressure };
+        const last = this.strokePoints[this.strokePoints.length - 1] || null;
+        const point = smoothPoint(last, this.strokeTarget, this.pencilSmoothing);
+        if (last && point.x === last.x && point.y === last.y) return;
+        this.strokePoints.push(point);
+    }
+
+    private endDrawingSnap(): void {
+        // A polygon keeps its targets until it is closed
+        if (this.polygonShape) return;
+        this.snapTargetsCache = null;
+        this.clearSnapLines();
+    }
+
+    // Abandon the shape or marquee being dragged out, e.g. when a touch becomes a pinch
+    private cancelDrawing(): void {
+        this.endDrawingSnap();
+        if (this.marquee) {
+            this.marquee.destroy();
+            this.marquee = null;
+        }
+        if (this.activeShape) {
+            const layer = this.activeShape.getLayer();
+            this.activeShape.destroy();
+            this.activeShape = null;
+            if (layer) layer.batchDraw();
+        }
+        this.erasedNodes.forEach(node => node.visible(true));
+        this.erasedNodes = [];
+        this.strokePoints = [];
+        this.strokeTarget = null;
+        this.isDrawing = false;
+        this.uiLayer.batchDraw();
+    }
+
+    private shapeFill(): string | undefined {
+        return this.fillEnabled ? this.fillColor : undefined;
+    }
+
+    // Shapes that were clicked but never dragged out have no size
+    private isEmptyShape(shape: any): boolean {
+        switch (this.currentTool) {
+            case 'circle':
+                return shape.radiusX() === 0 && shape.radiusY() === 0;
+            case 'rectangle':
+            case 'square':
+            case 'frame':
+                return shape.width() === 0 || shape.height() === 0;
+            case 'line':
+            case 'arrow': {
+                const [x1, y1, x2, y2] = shape.points();
+                return x1 === x2 && y1 === y2;
+            }
+            case 'regular-polygon':
+                return shape.radius() === 0;
+            case 'star':
+                return shape.outerRadius() === 0;
+            default:
+                return false;
+        }
+    }
+
+    // Snap a point so the segment from `origin` lies on a multiple of 15°
+    private snapToAngle(origin: Point, pos: Point): Point {
+        const step = Math.PI / 12;
+        const dx = pos.x - origin.x;
+        const dy = pos.y - origin.y;
+        const length = Math.hypot(dx, dy);
+        const angle = Math.round(Math.atan2(dy, dx) / step) * step;
+        return {
+            x: origin.x + Math.cos(angle) * length,
+            y: origin.y + Math.sin(angle) * length
+        };
+    }
+
+    // Polygon tool: every click fixes the point that follows the pointer and starts a new one
+    private addPolygonVertex(pos: Point): void {
+        if (!this.polygonShape) {
+            this.polygonShape = new Konva.Line({
+                points: [pos.x, pos.y, pos.x, pos.y],
+                fill: this.shapeFill(), // Only painted once the polygon is closed
+                stroke: this.currentColor,
+                strokeWidth: this.currentSize,
+                lineCap: 'round',
+                lineJoin: 'round',
+                draggable: true,
+                name: 'shape',
+                listening: false // Keep clicks going to the stage while vertices are added
+            });
+            this.activeLayer.add(this.polygonShape);
+        } else {
+            const points = this.polygonShape.points();
+            this.polygonShape.points(points.concat(points.slice(-2)));
+        }
+        this.polygonShape.getLayer().batchDraw();
+    }
+
+    private updatePolygonPreview(pos: Point, snap: boolean): void {
+        const points = this.polygonShape.points().slice();
+        const n = points.length;
+        const end = snap ? this.snapToAngle({ x: points[n - 4], y: points[n - 3] }, pos) : pos;
+        points[n - 2] = end.x;
+        points[n - 1] = end.y;
+        this.polygonShape.points(points);
+        this.polygonShape.getLayer().batchDraw();
+    }
+
+    // Close the polygon being built; with fewer than three vertices it is discarded
+    private finishPolygon(): void {
+        const shape = this.polygonShape;
+        if (!shape) return;
+        this.polygonShape = null;
+        this.endDrawingSnap();
+        const layer = shape.getLayer();
+
+        // Drop the point following the pointer and the repeats left by a double-click
+        const points: number[] = shape.points().slice(0, -2);
+        const vertices: number[] = [];
+        for (let i = 0; i < points.length; i += 2) {
+            const n = vertices.length;
+            if (n === 0 || vertices[n - 2] !== points[i] || vertices[n - 1] !== points[i + 1]) {
+                vertices.push(points[i], points[i + 1]);
+            }
+        }
+
+        if (vertices.length < 6) {
+            shape.destroy();
+            layer.batchDraw();
+            return;
+        }
+
+        shape.setAttrs({ points: vertices, closed: true, listening: true });
+        this.select([shape]);
+        this.history.record(new AddNodesCommand('Add polygon', capturePlacements([shape])));
+        layer.batchDraw();
+        this.uiLayer.batchDraw();
+    }
+
+    private cancelPolygon(): void {
+        if (!this.polygonShape) return;
+        const layer = this.polygonShape.getLayer();
+        this.polygonShape.destroy();
+        this.polygonShape = null;
+        this.endDrawingSnap();
+        layer.batchDraw();
+    }
+
+    // Hide every shape the eraser tip touched on its way from the last tested
+    // screen position to this one, sampled about one tip radius apart so fast
+    // strokes miss nothing. Hit testing only sees listening layers, so hidden
+    // and locked layers are left alone.
+    private eraseObjectsAt(pos: Point): void {
+        const radius = (this.currentSize / 2) * this.stage.scaleX();
+        const from = this.lastEraserPoint || pos;
+        this.lastEraserPoint = pos;
+
+        const steps = Math.max(1, Math.ceil(Math.hypot(pos.x - from.x, pos.y - from.y) / Math.max(1, radius)));
+        const samples: Point[] = [];
+        for (let step = 0; step <= steps; step++) {
+            const center = {
+                x: from.x + ((pos.x - from.x) * step) / steps,
+                y: from.y + ((pos.y - from.y) * step) / steps
+            };
+            samples.push(center);
+            for (let i = 0; i < 8; i++) {
+                const angle = (i / 8) * Math.PI * 2;
+                samples.push({ x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius });
+            }
+        }
+
+        samples.forEach(point => {
+            const shape = this.stage.getIntersection(point);
+            // Erase whole top-level nodes, e.g. a group rather than one of its children
+            const node = shape ? this.selectableNode(shape) : null;
+            if (!node || this.erasedNodes.includes(node)) return;
+
+            node.visible(false);
+            this.erasedNodes.push(node);
+        });
+    }
+
     private clearCanvas(): void {
-        // Clear all layers
-        this.shapeLayer.destroyChildren();
+        // Remove everything on visible, unlocked layers, keeping the nodes so the clear can be undone
+        const nodes: any[] = [];
+        userLayers(this.stage)
+            .filter(layer => isLayerEditable(layer))
+            .forEach(layer => nodes.push(...layer.getChildren()));
+        if (nodes.length === 0) return;
         
-        // Re-add transformer to shape layer
-        this.transformer = new Konva.Transformer({
-            nodes: [],
-            enabledAnchors: ['top-left', 'top-right', 'bottom-left', 'bottom-right'],
-            rotateEnabled: false
-        });
-        this.shapeLayer.add(this.transformer);
+        this.select([]);
+        this.history.execute(new RemoveNodesCommand('Clear canvas', nodes));
         
-        // Redraw layers
-        this.shapeLayer.draw();
+        // Redraw the selection overlay
+        this.uiLayer.draw();
     }
 
     private handleKeyDown(e: KeyboardEvent): void {
@@ -1558,371 +4296,218 @@ class DrawingApp {
                 return;
         }
         
-        // Delete selected shapes on Delete or Backspace keys
-        if ((e.key === 'Delete' || e.key === 'Backspace') && this.transformer.nodes().length > 0) {
-            // Get selected nodes
-            const selectedNodes = this.transformer.nodes();
-            
-            // Remove each selected node
-            selectedNodes.forEach((node: any) => {
-                node.destroy();
-            });
-            
-            // Clear transformer selection
-            this.transformer.nodes([]);
-            
-            // Redraw layers
-            this.shapeLayer.draw();
+        // Leave keys alone while typing in inputs such as the prompt or rename field
+        const target = e.target as HTMLElement;
+        if (target && (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.isContentEditable)) {
+            return;
+        }
+        
+        // Enter applies a crop in progress, Escape abandons it
+        if (this.cropSession && (e.key === 'Enter' || e.key === 'Escape')) {
+            e.preventDefault();
+            this.finishCrop(e.key === 'Enter');
+            return;
         }
-    }
 
-    private deleteSelectedImage(): void {
-        if (this.selectedImageId) {
-            // Remove image from placedImages array
-            this.placedImages = this.placedImages.filter(img => img.id !== this.selectedImageId);
-            this.selectedImageId = null;
-            
-            // Hide delete button
-            const deleteButton = document.getElementById('delete-image-btn');
-            if (deleteButton) {
-                deleteButton.style.display = 'none';
+        // Enter closes a polygon in progress, Escape abandons it
+        if (this.polygonShape && (e.key === 'Enter' || e.key === 'Escape')) {
+            e.preventDefault();
+            if (e.key === 'Enter') {
+                this.finishPolygon();
+            } else {
+                this.cancelPolygon();
             }
-            
-            // Redraw canvas
-            this.redrawCanvas();
+            return;
         }
-    }
-
-    private redrawCanvas(): void {
-        // This method might need adjustments based on how images are handled with Konva
-        // For now, keeping it simple
-        this.shapeLayer.draw();
-    }
-
-    private placeImageOnCanvas(imageUrl: string, position: Point): void {
-        // Check if image is in cache
-        let img: HTMLImageElement;
         
-        const placeImage = () => {
-            // Calculate size to maintain aspect ratio
-            const maxSize = 300;
-            const aspectRatio = img.naturalWidth / img.naturalHeight;
-            let width = maxSize;
-            let height = maxSize / aspectRatio;
-            
-            if (height > maxSize) {
-                height = maxSize;
-                width = maxSize * aspectRatio;
+        // Zoom in/out on Ctrl+= / Ctrl+-, actual size on Ctrl+0,
+        // fit content on Shift+1 and fit selection on Shift+2
+        if ((e.ctrlKey || e.metaKey) && !e.altKey && (e.key === '=' || e.key === '+' || e.key === '-' || e.key === '0')) {
+            e.preventDefault();
+            if (e.key === '0') {
+                this.zoomTo(1);
+            } else {
+                this.zoomBy(e.key === '-' ? 1 / this.ZOOM_STEP : this.ZOOM_STEP);
             }
-            
-            // Calculate placement position (centered on click point)
-            const x = position.x - width/2;
-            const y = position.y - height/2;
-            
-            // Add to placed images array with unique ID
-            const newId = `img_${Date.now()}_${Math.floor(Math.random() * 1000)}`;
-            const placedImage: PlacedImage = {
-                id: newId,
-                url: imageUrl,
-                x: x,
-                y: y,
-                width: width,
-                height: height,
-                selected: false
-            };
-            
-            this.placedImages.push(placedImage);
-            console.log('Added image via placeImageOnCanvas. Count:', this.placedImages.length);
-            
-            // Draw image on canvas
-            this.ctx.drawImage(img, x, y, width, height);
-        };
-        
-        if (this.imageCache.has(imageUrl)) {
-            img = this.imageCache.get(imageUrl)!;
-            placeImage();
-        } else {
-            img = new Image();
-            
-            img.onload = () => {
-                this.imageCache.set(imageUrl, img);
-                placeImage();
-            };
-            
-            img.onerror = () => {
-                console.error('Error loading image');
-                alert('Failed to load the selected image. Please try again.');
-            };
-            
-            img.src = imageUrl;
+            return;
+        }
+        if (e.shiftKey && !e.ctrlKey && !e.metaKey && !e.altKey && (e.code === 'Digit1' || e.code === 'Digit2')) {
+            e.preventDefault();
+            this.zoomToFit(e.code === 'Digit1' ? 'content' : 'selection');
+            return;
         }
-    }
-
-    private initializeDragEvents(): void {
-        // Add event listeners for drag and drop
-        this.canvas.addEventListener('mousemove', (e: MouseEvent) => {
-            this.handleDrag(e);
-            this.updateCursor(e);
-        });
-        this.canvas.addEventListener('mouseup', this.finalizeDrag.bind(this));
         
-        // Prevent dragging from canceling when mouse leaves canvas
-        this.canvas.addEventListener('mouseleave', (e: MouseEvent) => {
-            // Only finalize if mouse is actually leaving the canvas area
-            const rect = this.canvas.getBoundingClientRect();
-            if (e.clientX < rect.left || e.clientX > rect.right || 
-                e.clientY < rect.top || e.clientY > rect.bottom) {
-                this.finalizeDrag(e);
+        // Select all on Ctrl+A, group on Ctrl+G, ungroup on Ctrl+Shift+G
+        if ((e.ctrlKey || e.metaKey) && !e.altKey && e.key.toLowerCase() === 'a') {
+            e.preventDefault();
+            this.selectAll();
+            return;
+        }
+        if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'g') {
+            e.preventDefault();
+            if (e.shiftKey) {
+                this.ungroupSelection();
+            } else {
+                this.groupSelection();
             }
-        });
-    }
-    
-    private handleDrag(e: MouseEvent): void {
-        if (!this.currentDragImage || !this.currentDragImage.isDragging) return;
+            return;
+        }
         
-        const rect = this.canvas.getBoundingClientRect();
-        const x = e.clientX - rect.left - this.currentDragImage.offsetX;
-        const y = e.clientY - rect.top - this.currentDragImage.offsetY;
+        // Bring forward on Ctrl+], send backward on Ctrl+[, and to the front or back with Shift
+        if ((e.ctrlKey || e.metaKey) && !e.altKey && (e.code === 'BracketRight' || e.code === 'BracketLeft')) {
+            e.preventDefault();
+            if (e.code === 'BracketRight') {
+                this.reorderSelection(e.shiftKey ? 'front' : 'forward');
+            } else {
+                this.reorderSelection(e.shiftKey ? 'back' : 'backward');
+            }
+            return;
+        }
         
-        // Update drag image position
-        this.currentDragImage.element.style.left = `${x}px`;
-        this.currentDragImage.element.style.top = `${y}px`;
-    }
-    
-    private finalizeDrag(e: MouseEvent): void {
-        if (!this.currentDragImage) return;
-        
-        // Reset canvas cursor
-        this.canvas.classList.remove('image-placement');
-        
-        if (this.currentDragImage.isDragging) {
-            // Get final position
-            const rect = this.canvas.getBoundingClientRect();
-            const finalPosition = {
-                x: e.clientX - rect.left,
-                y: e.clientY - rect.top
-            };
-            
-            console.log('Finalizing drag at position', finalPosition);
-            
-            // Save the currentDragImage data before potentially nullifying it
-            const dragImageData = {
-                url: this.currentDragImage.url,
-                width: parseInt(this.currentDragImage.element.style.width) || 300,
-                height: parseInt(this.currentDragImage.element.style.height) || 300
+        // Align on Alt+A/H/D (left, center, right) and Alt+W/V/S (top, middle, bottom),
+        // distribute on Alt+Shift+H / Alt+Shift+V
+        if (e.altKey && !e.ctrlKey && !e.metaKey) {
+            const alignKeys: Record<string, Alignment> = {
+                KeyA: 'left', KeyH: 'center', KeyD: 'right', KeyW: 'top', KeyV: 'middle', KeyS: 'bottom'
             };
-            
-            // Clean up visual drag element
-            if (this.currentDragImage.element.parentNode) {
-                this.currentDragImage.element.parentNode.removeChild(this.currentDragImage.element);
+            if (e.shiftKey && (e.code === 'KeyH' || e.code === 'KeyV')) {
+                e.preventDefault();
+                this.distributeSelection(e.code === 'KeyH' ? 'horizontal' : 'vertical');
+                return;
             }
-            
-            // Check if image is already in cache
-            let img: HTMLImageElement;
-            const loadAndPlaceImage = () => {
-                // Calculate actual placement position (centered on cursor)
-                const width = dragImageData.width;
-                const height = dragImageData.height;
-                const x = finalPosition.x - width/2;
-                const y = finalPosition.y - height/2;
-                
-                console.log('Final image position', x, y, width, height);
-                
-                // Add to placed images array with unique ID
-                const newId = `img_${Date.now()}_${Math.floor(Math.random() * 1000)}`;
-                const placedImage: PlacedImage = {
-                    id: newId,
-                    url: dragImageData.url,
-                    x: x,
-                    y: y,
-                    width: width,
-                    height: height,
-                    selected: false
-                };
-                
-                this.placedImages.push(placedImage);
-                console.log('Added image to placedImages array. Count:', this.placedImages.length);
-                
-                // Draw on canvas using cached image
-                this.ctx.drawImage(img, x, y, width, height);
-                
-                // Reset to pencil tool
-                this.currentTool = 'pencil';
-                const pencilBtn = document.getElementById('pencil');
-                if (pencilBtn) {
-                    document.querySelectorAll('.tool-btn').forEach(btn => btn.classList.remove('active'));
-                    pencilBtn.classList.add('active');
-                }
-            };
-            
-            if (this.imageCache.has(dragImageData.url)) {
-                img = this.imageCache.get(dragImageData.url)!;
-                loadAndPlaceImage();
-            } else {
-                img = new Image();
-                img.onload = () => {
-                    this.imageCache.set(dragImageData.url, img);
-                    loadAndPlaceImage();
-                };
-                
-                img.onerror = () => {
-                    console.error('Error loading image in finalizeDrag:', dragImageData.url);
-                    alert('Failed to load the selected image. Please try again.');
-                };
-                
-                img.src = dragImageData.url;
+            if (!e.shiftKey && alignKeys[e.code]) {
+                e.preventDefault();
+                this.alignSelection(alignKeys[e.code]);
+                return;
             }
-        } else {
-            // Clean up visual drag element if not dragging
-            if (this.currentDragImage.element.parentNode) {
-                this.currentDragImage.element.parentNode.removeChild(this.currentDragImage.element);
+        }
+        
+        // Copy, cut and duplicate on Ctrl+C / Ctrl+X / Ctrl+D. Ctrl+V is left to the
+        // browser so it fires a paste event with the system clipboard's contents.
+        if ((e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey && ['KeyC', 'KeyX', 'KeyD'].includes(e.code) &&
+            this.transformer.nodes().length > 0) {
+            e.preventDefault();
+            if (e.code === 'KeyC') {
+                this.copySelection();
+            } else if (e.code === 'KeyX') {
+                this.cutSelection();
+            } else {
+                this.duplicateSelection();
             }
+            return;
         }
         
-        // Reset drag state after handling everything
-        this.currentDragImage = null;
-    }
-    
-    private startDraggableImage(imageUrl: string, startPoint: Point): void {
-        // Create a draggable image element
-        const container = document.getElementById('canvas-container');
-        if (!container) return;
-        
-        // Change canvas cursor
-        this.canvas.classList.add('image-placement');
-        
-        // Create image element for dragging
-        const dragImg = document.createElement('img');
-        dragImg.src = imageUrl;
-        dragImg.className = 'draggable-image';
-        dragImg.style.position = 'absolute';
-        dragImg.style.pointerEvents = 'none';
-        dragImg.style.opacity = '0.8';
-        dragImg.style.cursor = 'move';
-        
-        // Calculate max dimensions
-        const maxSize = 300;
-        
-        // Set initial size (will be updated when image loads)
-        dragImg.style.width = `${maxSize}px`;
-        dragImg.style.maxWidth = `${maxSize}px`;
-        
-        // Position at mouse point
-        dragImg.style.left = `${startPoint.x - maxSize/2}px`;
-        dragImg.style.top = `${startPoint.y - maxSize/2}px`;
-        
-        // Add to container
-        container.appendChild(dragImg);
-        
-        // Create drag image state
-        this.currentDragImage = {
-            url: imageUrl,
-            element: dragImg,
-            isDragging: true,
-            offsetX: maxSize/2,
-            offsetY: maxSize/2
-        };
+        // The context menu key or Shift+F10 opens the context menu
+        if (e.key === 'ContextMenu' || (e.shiftKey && e.key === 'F10')) {
+            e.preventDefault();
+            this.openContextMenuFromKeyboard();
+            return;
+        }
         
-        // Update size when image loads
-        dragImg.onload = () => {
-            if (!this.currentDragImage) return;
-            
-            // Calculate dimensions based on aspect ratio
-            const aspectRatio = dragImg.naturalWidth / dragImg.naturalHeight;
-            let width = maxSize;
-            let height = maxSize / aspectRatio;
-            
-            if (height > maxSize) {
-                height = maxSize;
-                width = maxSize * aspectRatio;
+        // Copy and paste style on Ctrl+Alt+C / Ctrl+Alt+V
+        if ((e.ctrlKey || e.metaKey) && e.altKey && (e.code === 'KeyC' || e.code === 'KeyV')) {
+            e.preventDefault();
+            if (e.code === 'KeyC') {
+                this.copyStyle();
+            } else {
+                this.pasteStyle();
             }
-            
-            // Update element
-            this.currentDragImage.element.style.width = `${width}px`;
-            this.currentDragImage.element.style.height = `${height}px`;
-            
-            // Update offset
-            this.currentDragImage.offsetX = width/2;
-            this.currentDragImage.offsetY = height/2;
-            
-            // Update position to center on cursor
-            const rect = this.canvas.getBoundingClientRect();
-            const boundingRect = container.getBoundingClientRect();
-            const x = startPoint.x - width/2;
-            const y = startPoint.y - height/2;
-            
-            this.currentDragImage.element.style.left = `${x}px`;
-            this.currentDragImage.element.style.top = `${y}px`;
-        };
-    }
-    
-    private selectImageAt(x: number, y: number): boolean {
-        console.log('Testing point', x, y, 'against', this.placedImages.length, 'images');
-        
-        // Check if point is inside any placed image - check in reverse order so top-most is selected first
-        for (let i = this.placedImages.length - 1; i >= 0; i--) {
-            const img = this.placedImages[i];
-            
-            console.log('Checking image', i, img.x, img.y, img.width, img.height);
-            
-            if (
-                x >= img.x && 
-                x <= img.x + img.width && 
-                y >= img.y && 
-                y <= img.y + img.height
-            ) {
-                console.log('Image selected:', i);
-                
-                // Deselect all images
-                this.placedImages.forEach(image => {
-                    image.selected = false;
-                });
-                
-                // Select this image
-                img.selected = true;
-                this.selectedImageId = img.id;
-                
-                // Move the selected image to the end of the array so it's rendered on top
-                this.placedImages = [
-                    ...this.placedImages.filter(image => image.id !== img.id),
-                    img
-                ];
-                
-                // Calculate drag offset
-                this.dragOffsetX = x - img.x;
-                this.dragOffsetY = y - img.y;
-                
-                // Clear any thumbnail selection when a canvas image is selected
-                this.selectedImageIndex = -1;
-                
-                // Reset currentTool to prevent thumbnail image placement when moving placed images
-                this.currentTool = 'select';
-                
-                // Redraw canvas
-                this.redrawCanvas();
-                return true;
+            return;
+        }
+        
+        // Undo on Ctrl+Z, redo on Ctrl+Shift+Z or Ctrl+Y
+        if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+            e.preventDefault();
+            if (e.shiftKey) {
+                this.redo();
+            } else {
+                this.undo();
             }
+            return;
+        }
+        if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'y') {
+            e.preventDefault();
+            this.redo();
+            return;
         }
         
-        console.log('No image found at point');
-        // No image found at this position
-        return false;
+        // Delete selected shapes on Delete or Backspace keys
+        if (e.key === 'Delete' || e.key === 'Backspace') {
+            this.deleteSelection();
+        }
     }
-    
-    private deselectAllImages(): void {
-        this.placedImages.forEach(img => {
-            img.selected = false;
+
+    // Generated image thumbnails, image files from the desktop and images
+    // dragged from other pages can be dropped onto the canvas
+    private initializeImageDrop(): void {
+        const container = document.getElementById('canvas-container');
+        if (!container) {
+            console.error('Canvas container not found');
+            return;
+        }
+
+        const accepts = (types: string[]) =>
+            types.includes(this.THUMBNAIL_DRAG_TYPE) || types.includes('Files') || types.includes('text/uri-list');
+
+        container.addEventListener('dragover', (e: DragEvent) => {
+            if (!e.dataTransfer || !accepts(Array.from(e.dataTransfer.types))) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'copy';
         });
-        this.selectedImageId = null;
-        
-        // Hide delete button
-        const deleteButton = document.getElementById('delete-image-btn');
-        if (deleteButton) {
-            deleteButton.style.display = 'none';
+        container.addEventListener('drop', (e: DragEvent) => {
+            if (!e.dataTransfer) return;
+            e.preventDefault();
+            const point = this.clientToCanvas(e.clientX, e.clientY);
+
+            const thumbnailURL = e.dataTransfer.getData(this.THUMBNAIL_DRAG_TYPE);
+            if (thumbnailURL) {
+                this.placeImageOnCanvas(thumbnailURL, point);
+                return;
+            }
+
+            const files = Array.from(e.dataTransfer.files).filter(file => isImageFile(file));
+            if (files.length > 0) {
+                this.insertImageFiles(files, point, 'Drop image');
+                return;
+            }
+
+            const url = imageURL(e.dataTransfer.getData('text/uri-list').split('\n')[0] || '');
+            if (url) {
+                this.insertImageURL(url, point, 'Drop image');
+            }
+        });
+    }
+
+    // Insert image files one after another, each a little offset from the previous
+    private async insertImageFiles(files: Blob[], center: Point, label: string): Promise<void> {
+        const nodes: any[] = [];
+        for (let i = 0; i < files.length; i++) {
+            const offset = i * this.DUPLICATE_OFFSET * 2;
+            const node = await this.insertImageFile(files[i], { x: center.x + offset, y: center.y + offset }, label);
+            if (node) nodes.push(node);
+        }
+        if (nodes.length > 1) {
+            this.select(nodes);
+        }
+    }
+
+    // The "Insert image" command: pick image files and add them in the middle of the view
+    private async chooseAndInsertImages(center: Point | null = null): Promise<void> {
+        if (!this.canEditActiveLayer()) return;
+
+        const files = await chooseImageFiles();
+        if (files.length === 0) return;
+        const view = this.exportRegionRect('viewport')!;
+        await this.insertImageFiles(files, center || { x: view.x + view.width / 2, y: view.y + view.height / 2 }, 'Insert image');
+    }
+
+    // Place a generated image centred on a point and select it so it can be moved into place
+    private async placeImageOnCanvas(imageUrl: string, position: Point): Promise<void> {
+        const node = await this.insertImage(imageUrl, position, 'Place image', this.PLACED_IMAGE_SIZE);
+        if (node) {
+            this.setTool('select');
+            this.select([node]);
         }
-        
-        // Redraw canvas
-        this.redrawCanvas();
     }
 
     private initializeTooltips(): void {
@@ -1975,15 +4560,14 @@ class DrawingApp {
         });
     }
 
-    private updateCursor(e: MouseEvent): void {
-        // This is now handled by Konva's built-in cursor management
-        // But we'll keep this method for compatibility with other code that might call it
-    }
-
     // Helper method for creating text on double-click
     private createText(e: any): void {
+        if (!this.canEditActiveLayer()) {
+            return;
+        }
+        
         // Create text element at click position
-        const pos = this.stage.getPointerPosition();
+        const pos = this.stage.getRelativePointerPosition();
         const text = new Konva.Text({
             x: pos.x,
             y: pos.y,
@@ -1998,177 +4582,212 @@ class DrawingApp {
         });
         
         // Enable text editing on double click
+        this.attachTextEditor(text);
+        
+        // Add text to the active layer
+        this.activeLayer.add(text);
+        this.activeLayer.draw();
+        
+        // Select the text for immediate manipulation
+        this.select([text]);
+        this.uiLayer.draw();
+        
+        // Show the textarea immediately for editing
+        setTimeout(() => {
+            text.fire('dblclick');
+        }, 50);
+        
+        // Record the new text so it can be undone
+        this.history.record(new AddNodesCommand('Add text', capturePlacements([text])));
+    }
+
+    // Wire up the textarea editor for a Konva.Text node
+    private attachTextEditor(text: any): void {
         text.on('dblclick', () => {
-            // Create a textarea over the text
-            const textPosition = text.absolutePosition();
-            const stageContainer = this.stage.container();
-            
-            const textarea = document.createElement('textarea');
-            stageContainer.appendChild(textarea);
-            
-            textarea.value = text.text();
-            textarea.style.position = 'absolute';
-            textarea.style.top = textPosition.y + 'px';
-            textarea.style.left = textPosition.x + 'px';
-            textarea.style.width = Math.max(text.width(), 200) + 'px'; // Minimum width of 200px
-            textarea.style.height = Math.max(text.height(), 50) + 'px'; // Minimum height
-            textarea.style.fontSize = text.fontSize() + 'px';
-            textarea.style.border = 'none';
-            textarea.style.padding = '5px'; // Add padding for better text visibility
-            textarea.style.margin = '0px';
-            textarea.style.overflow = 'hidden';
-            textarea.style.background = 'rgba(255, 255, 255, 0.7)'; // Semi-transparent background
-            textarea.style.outline = 'none';
-            textarea.style.resize = 'both'; // Allow manual resizing
-            textarea.style.lineHeight = text.lineHeight().toString();
-            textarea.style.fontFamily = text.fontFamily();
-            textarea.style.transformOrigin = 'left top';
-            textarea.style.color = text.fill();
-            textarea.style.boxSizing = 'border-box'; // Include padding in width/height calculations
-            textarea.style.whiteSpace = 'pre-wrap'; // Support line breaks and wrapping
-            textarea.wrap = 'soft'; // Enable word wrapping
-            
-            textarea.focus();
-            
-            const removeTextarea = () => {
-                stageContainer.removeChild(textarea);
-                window.removeEventListener('click', handleOutsideClick);
-                text.show();
-                this.shapeLayer.draw();
-            };
+            if (this.isNodeLocked(this.selectableNode(text, true))) return;
+            this.editText(text);
+        });
+    }
+
+    private editText(text: any): void {
+        // Create a textarea over the text, sized for the current zoom
+        const textPosition = text.absolutePosition();
+        const scale = text.getAbsoluteScale().x;
+        const stageContainer = this.stage.container();
+        
+        const textarea = document.createElement('textarea');
+        stageContainer.appendChild(textarea);
+        
+        textarea.value = text.text();
+        textarea.style.position = 'absolute';
+        textarea.style.top = textPosition.y + 'px';
+        textarea.style.left = textPosition.x + 'px';
+        textarea.style.width = Math.max(text.width(), 200) * scale + 'px'; // Minimum width of 200px
+        textarea.style.height = Math.max(text.height(), 50) * scale + 'px'; // Minimum height
+        textarea.style.fontSize = text.fontSize() * scale + 'px';
+        textarea.style.border = 'none';
+        textarea.style.padding = 5 * scale + 'px'; // Add padding for better text visibility
+        textarea.style.margin = '0px';
+        textarea.style.overflow = 'hidden';
+        textarea.style.background = 'rgba(255, 255, 255, 0.7)'; // Semi-transparent background
+        textarea.style.outline = 'none';
+        textarea.style.resize = 'both'; // Allow manual resizing
+        textarea.style.lineHeight = text.lineHeight().toString();
+        textarea.style.fontFamily = text.fontFamily();
+        textarea.style.transformOrigin = 'left top';
+        textarea.style.color = text.fill();
+        textarea.style.boxSizing = 'border-box'; // Include padding in width/height calculations
+        textarea.style.whiteSpace = 'pre-wrap'; // Support line breaks and wrapping
+        textarea.wrap = 'soft'; // Enable word wrapping
+        
+        textarea.focus();
+        
+        // Snapshot the text so the whole edit can be undone as one step
+        const before = captureAttrs(text);
+        let closed = false;
+        
+        const removeTextarea = () => {
+            // Enter and blur can both try to close the editor
+            if (closed) return;
+            closed = true;
             
-            // Update textarea size based on content
-            const updateTextareaSize = () => {
-                // Create a hidden div to measure text width and height accurately
-                const measurer = document.createElement('div');
-                measurer.style.position = 'absolute';
-                measurer.style.visibility = 'hidden';
-                measurer.style.fontSize = textarea.style.fontSize;
-                measurer.style.fontFamily = textarea.style.fontFamily;
-                measurer.style.lineHeight = textarea.style.lineHeight;
-                measurer.style.whiteSpace = 'pre-wrap'; // Handle line breaks properly
-                measurer.style.boxSizing = 'border-box';
-                measurer.style.padding = textarea.style.padding;
-                // Don't constrain the width - let it fit to content naturally
-                measurer.style.display = 'inline-block';
-                measurer.style.maxWidth = 'none';
-                measurer.style.wordBreak = 'break-word'; // Break words to prevent overflow
-                measurer.style.textAlign = 'left'; // Ensure left alignment
-                
-                // Replace spaces with non-breaking spaces to preserve them
-                // Replace newlines with <br> for proper measurement
-                const textWithLineBreaks = textarea.value
-                    .replace(/ /g, '\u00A0')
-                    .replace(/\n/g, '<br>');
-                
-                measurer.innerHTML = textWithLineBreaks || 'M'; // Use 'M' as minimum if empty
-                
-                document.body.appendChild(measurer);
-                
-                // Add padding to the measurements
-                const padding = 10; // 5px padding on each side
-                
-                // Get accurate measurements of the actual text content
-                const measuredWidth = measurer.offsetWidth;
-                const measuredHeight = measurer.offsetHeight;
-                
-                // Store original position
-                const originalPosition = text.absolutePosition();
-                
-                // Set width based on content (with padding)
-                const width = Math.max(measuredWidth + padding, 200);
-                
-                // Set height based on content (with padding)
-                const height = Math.max(measuredHeight + padding, 50);
-                
-                // Update text dimensions first
-                text.width(width);
-                text.height(height);
-                
-                // Important: Restore the original position
-                text.absolutePosition(originalPosition);
-                
-                // Now update textarea dimensions and position to match
-                textarea.style.width = width + 'px';
-                textarea.style.height = height + 'px';
-                textarea.style.top = originalPosition.y + 'px';
-                textarea.style.left = originalPosition.x + 'px';
-                
-                // Enable text wrapping in the Konva Text node
-                text.wrap('word');
-                
-                // Clean up
-                document.body.removeChild(measurer);
-            };
+            stageContainer.removeChild(textarea);
+            window.removeEventListener('click', handleOutsideClick);
+            text.show();
+            text.getLayer().draw();
             
-            // Update text value when textarea changes
-            textarea.addEventListener('input', () => {
-                // Update the Konva text node with the new content
-                text.text(textarea.value);
-                
-                // Adjust size to fit new content
-                updateTextareaSize();
-            });
+            const after = captureAttrs(text);
+            if (before.text !== after.text || before.width !== after.width || before.height !== after.height) {
+                this.history.record(new AttrsCommand('Edit text', [{ node: text, before, after }]));
+            }
+        };
+        
+        // Update textarea size based on content
+        const updateTextareaSize = () => {
+            // Create a hidden div to measure text width and height accurately
+            const measurer = document.createElement('div');
+            measurer.style.position = 'absolute';
+            measurer.style.visibility = 'hidden';
+            measurer.style.fontSize = textarea.style.fontSize;
+            measurer.style.fontFamily = textarea.style.fontFamily;
+            measurer.style.lineHeight = textarea.style.lineHeight;
+            measurer.style.whiteSpace = 'pre-wrap'; // Handle line breaks properly
+            measurer.style.boxSizing = 'border-box';
+            measurer.style.padding = textarea.style.padding;
+            // Don't constrain the width - let it fit to content naturally
+            measurer.style.display = 'inline-block';
+            measurer.style.maxWidth = 'none';
+            measurer.style.wordBreak = 'break-word'; // Break words to prevent overflow
+            measurer.style.textAlign = 'left'; // Ensure left alignment
             
-            // Initial size update
-            updateTextareaSize();
+            // Replace spaces with non-breaking spaces to preserve them
+            // Replace newlines with <br> for proper measurement
+            const textWithLineBreaks = textarea.value
+                .replace(/ /g, '\u00A0')
+                .replace(/\n/g, '<br>');
             
-            // Handle various events to finalize editing
-            const handleOutsideClick = (e: Event) => {
-                if (e.target !== textarea) {
-                    text.text(textarea.value);
-                    removeTextarea();
-                }
-            };
+            measurer.innerHTML = textWithLineBreaks || 'M'; // Use 'M' as minimum if empty
             
-            textarea.addEventListener('keydown', (e) => {
-                // Prevent the Enter keydown event from propagating to window
-                e.stopPropagation();
-                
-                if (e.key === 'Enter' && !e.shiftKey) {
-                    e.preventDefault(); // Prevent default Enter behavior
-                    
-                    // Make sure to update the text before hiding the textarea
-                    const updatedText = textarea.value;
-                    text.text(updatedText);
-                    
-                    // Only remove the textarea after text is updated
-                    setTimeout(() => {
-                        removeTextarea();
-                    }, 0);
-                }
-                if (e.key === 'Escape') {
-                    removeTextarea();
-                }
-            });
+            document.body.appendChild(measurer);
             
-            textarea.addEventListener('blur', () => {
-                // Make sure to update the text before hiding the textarea
+            // Add padding to the measurements
+            const padding = 10 * scale; // 5px padding on each side
+            
+            // Get accurate measurements of the actual text content
+            const measuredWidth = measurer.offsetWidth;
+            const measuredHeight = measurer.offsetHeight;
+            
+            // Store original position
+            const originalPosition = text.absolutePosition();
+            
+            // Set width based on content (with padding)
+            const width = Math.max(measuredWidth + padding, 200 * scale);
+            
+            // Set height based on content (with padding)
+            const height = Math.max(measuredHeight + padding, 50 * scale);
+            
+            // Update text dimensions first, converting from screen pixels
+            text.width(width / scale);
+            text.height(height / scale);
+            
+            // Important: Restore the original position
+            text.absolutePosition(originalPosition);
+            
+            // Now update textarea dimensions and position to match
+            textarea.style.width = width + 'px';
+            textarea.style.height = height + 'px';
+            textarea.style.top = originalPosition.y + 'px';
+            textarea.style.left = originalPosition.x + 'px';
+            
+            // Enable text wrapping in the Konva Text node
+            text.wrap('word');
+            
+            // Clean up
+            document.body.removeChild(measurer);
+        };
+        
+        // Update text value when textarea changes
+        textarea.addEventListener('input', () => {
+            // Update the Konva text node with the new content
+            text.text(textarea.value);
+            
+            // Adjust size to fit new content
+            updateTextareaSize();
+        });
+        
+        // Initial size update
+        updateTextareaSize();
+        
+        // Handle various events to finalize editing
+        const handleOutsideClick = (e: Event) => {
+            if (e.target !== textarea) {
                 text.text(textarea.value);
                 removeTextarea();
-            });
-            
-            // Hide the text node while editing
-            text.hide();
-            this.shapeLayer.draw();
+            }
+        };
+        
+        textarea.addEventListener('keydown', (e) => {
+            // Prevent the Enter keydown event from propagating to window
+            e.stopPropagation();
             
-            setTimeout(() => {
-                window.addEventListener('click', handleOutsideClick);
-            }, 0);
+            if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault(); // Prevent default Enter behavior
+                
+                // Make sure to update the text before hiding the textarea
+                const updatedText = textarea.value;
+                text.text(updatedText);
+                
+                // Only remove the textarea after text is updated
+                setTimeout(() => {
+                    removeTextarea();
+                }, 0);
+            }
+            if (e.key === 'Escape') {
+                removeTextarea();
+            }
         });
         
-        // Add text to shape layer
-        this.shapeLayer.add(text);
-        this.shapeLayer.draw();
+        textarea.addEventListener('blur', () => {
+            // Make sure to update the text before hiding the textarea
+            text.text(textarea.value);
+            removeTextarea();
+        });
         
-        // Select the text for immediate manipulation
-        this.transformer.nodes([text]);
-        this.shapeLayer.draw();
+        // Hide the text node while editing
+        text.hide();
+        text.getLayer().draw();
         
-        // Show the textarea immediately for editing
         setTimeout(() => {
-            text.fire('dblclick');
-        }, 50);
+            window.addEventListener('click', handleOutsideClick);
+        }, 0);
+    }
+
+    // Show only the option rows (data-tools) that apply to the current tool
+    private updateToolOptions(): void {
+        document.querySelectorAll<HTMLElement>('.tool-options').forEach(options => {
+            const tools = (options.dataset.tools || '').split(' ');
+            options.style.display = tools.includes(this.currentTool) ? 'flex' : 'none';
+        });
     }
 
     public toggleNavigationMode(enabled: boolean): void {
@@ -2200,25 +4819,64 @@ class DrawingApp {
             
             // When navigation mode is enabled, deselect any selected shapes
             if (this.transformer) {
-                this.transformer.nodes([]);
-                this.shapeLayer.draw();
+                this.select([]);
+                this.uiLayer.draw();
             }
         } else {
             document.body.style.cursor = 'default';
         }
     }
 
+    // Area of the canvas the view may pan over, in stage coordinates. An infinite
+    // canvas grows with its content, plus a screen's worth of room on every side.
+    private pannableBounds(): Rect {
+        const { mode, width, height } = this.canvasSettings;
+        if (mode === 'artboard') {
+            return { x: 0, y: 0, width, height };
+        }
+
+        const content = nodesBounds(this.contentNodes()) || { x: 0, y: 0, width: 0, height: 0 };
+        const marginX = this.stage.width() / this.stage.scaleX();
+        const marginY = this.stage.height() / this.stage.scaleY();
+        return {
+            x: content.x - marginX,
+            y: content.y - marginY,
+            width: content.width + marginX * 2,
+            height: content.height + marginY * 2
+        };
+    }
+
+    private applyCanvasSettings(settings: CanvasSettings): void {
+        this.canvasSettings = { ...settings };
+        updateArtboardLayer(this.artboardLayer, this.canvasSettings);
+
+        // Outside an artboard is neutral grey; an infinite canvas is all background
+        this.stage.container().style.backgroundColor =
+            settings.mode === 'artboard' ? '#e9ecef' : settings.background;
+        this.limitDragBoundaries();
+        this.stage.batchDraw();
+        if (this.minimap) {
+            this.minimap.render();
+        }
+    }
+
     private limitDragBoundaries(): void {
         // Calculate the boundaries to prevent dragging beyond virtual canvas
         const pos = this.stage.position();
         const stageWidth = this.stage.width();
         const stageHeight = this.stage.height();
+        const scale = this.stage.scaleX();
+        const bounds = this.pannableBounds();
+        const left = bounds.x * scale;
+        const top = bounds.y * scale;
+        const canvasWidth = bounds.width * scale;
+        const canvasHeight = bounds.height * scale;
         
-        // Define the limits
-        const maxX = 0; // Can't drag right beyond the left edge
-        const maxY = 0; // Can't drag down beyond the top edge
-        const minX = -(this.virtualCanvasWidth - stageWidth); // Can't drag left beyond the right edge
-        const minY = -(this.virtualCanvasHeight - stageHeight); // Can't drag up beyond the bottom edge
+        // Define the limits; a canvas smaller than the view when zoomed out is centred
+        const maxX = canvasWidth < stageWidth ? (stageWidth - canvasWidth) / 2 - left : -left; // Can't drag right beyond the left edge
+        const maxY = canvasHeight < stageHeight ? (stageHeight - canvasHeight) / 2 - top : -top; // Can't drag down beyond the top edge
+        const minX = canvasWidth < stageWidth ? maxX : -(left + canvasWidth - stageWidth); // Can't drag left beyond the right edge
+        const minY = canvasHeight < stageHeight ? maxY : -(top + canvasHeight - stageHeight); // Can't drag up beyond the bottom edge
         
         // Apply constraints
         if (pos.x > maxX) this.stage.x(maxX);
@@ -0,0 +1,92 @@
+// Stacking order, alignment and distribution of selected nodes
+
+import { Rect } from './raster-export.js';
+
+export type ZOrder = 'front' | 'forward' | 'backward' | 'back';
+export type Alignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+export interface Offset {
+    dx: number;
+    dy: number;
+}
+
+// Restack nodes within their parents, keeping their order relative to each other
+export function reorderNodes(nodes: any[], order: ZOrder): void {
+    const ascending = [...nodes].sort((a, b) => a.getAbsoluteZIndex() - b.getAbsoluteZIndex());
+
+    switch (order) {
+        case 'front':
+            ascending.forEach(node => node.moveToTop());
+            break;
+        case 'back':
+            [...ascending].reverse().forEach(node => node.moveToBottom());
+            break;
+        case 'forward':
+            // Top-most first, so a node never jumps over another selected one
+            [...ascending].reverse().forEach(node => {
+                const siblings = node.getParent().getChildren();
+                const above = siblings[node.zIndex() + 1];
+                if (above && !nodes.includes(above)) node.moveUp();
+            });
+            break;
+        case 'backward':
+            ascending.forEach(node => {
+                const siblings = node.getParent().getChildren();
+                const below = siblings[node.zIndex() - 1];
+                if (below && !nodes.includes(below)) node.moveDown();
+            });
+            break;
+    }
+}
+
+export function unionRect(rects: Rect[]): Rect {
+    const left = Math.min(...rects.map(rect => rect.x));
+    const top = Math.min(...rects.map(rect => rect.y));
+    const right = Math.max(...rects.map(rect => rect.x + rect.width));
+    const bottom = Math.max(...rects.map(rect => rect.y + rect.height));
+    return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+// How far to move each box to line it up with the reference box
+export function alignOffsets(rects: Rect[], reference: Rect, alignment: Alignment): Offset[] {
+    return rects.map(rect => {
+        switch (alignment) {
+            case 'left':
+                return { dx: reference.x - rect.x, dy: 0 };
+            case 'center':
+                return { dx: reference.x + reference.width / 2 - (rect.x + rect.width / 2), dy: 0 };
+            case 'right':
+                return { dx: reference.x + reference.width - (rect.x + rect.width), dy: 0 };
+            case 'top':
+                return { dx: 0, dy: reference.y - rect.y };
+            case 'middle':
+                return { dx: 0, dy: reference.y + reference.height / 2 - (rect.y + rect.height / 2) };
+            case 'bottom':
+                return { dx: 0, dy: reference.y + reference.height - (rect.y + rect.height) };
+        }
+    });
+}
+
+// Equal gaps between neighbouring boxes; the outermost two stay where they are
+export function distributeOffsets(rects: Rect[], axis: DistributeAxis): Offset[] {
+    const offsets: Offset[] = rects.map(() => ({ dx: 0, dy: 0 }));
+    if (rects.length < 3) return offsets;
+
+    const start = (rect: Rect) => (axis === 'horizontal' ? rect.x : rect.y);
+    const size = (rect: Rect) => (axis === 'horizontal' ? rect.width : rect.height);
+
+    const order = rects.map((rect, index) => index).sort((a, b) => start(rects[a]) - start(rects[b]));
+    const first = rects[order[0]];
+    const end = Math.max(...rects.map(rect => start(rect) + size(rect)));
+    const total = rects.reduce((sum, rect) => sum + size(rect), 0);
+    const gap = (end - start(first) - total) / (rects.length - 1);
+
+    let position = start(first);
+    order.forEach(index => {
+        const delta = position - start(rects[index]);
+        offsets[index] = axis === 'horizontal' ? { dx: delta, dy: 0 } : { dx: 0, dy: delta };
+        position += size(rects[index]) + gap;
+    });
+    return offsets;
+}
@@ -0,0 +1,174 @@
+// Freehand pencil strokes: brush presets, pointer smoothing, point
+// simplification and the filled outline a pressure-varying stroke is drawn as
+
+export type BrushPreset = 'pen' | 'marker' | 'highlighter' | 'calligraphy';
+
+export interface StrokePoint {
+    x: number;
+    y: number;
+    pressure: number; // 0 to 1; 0.5 when the device reports none
+}
+
+export interface BrushSettings {
+    // How much pressure changes the width: 0 keeps it constant, 1 goes
+    // from nothing at no pressure to double width at full pressure
+    thinning: number;
+    widthScale: number; // Multiplies the tool size
+    roundCaps: boolean;
+    // Width follows the stroke direction like a flat nib held at this angle (degrees)
+    nibAngle: number | null;
+    opacity: number;
+    compositeOperation: string;
+}
+
+export const BRUSH_PRESETS: Record<BrushPreset, BrushSettings> = {
+    pen: { thinning: 0.6, widthScale: 1, roundCaps: true, nibAngle: null, opacity: 1, compositeOperation: 'source-over' },
+    marker: { thinning: 0.1, widthScale: 1.5, roundCaps: true, nibAngle: null, opacity: 0.9, compositeOperation: 'source-over' },
+    // Multiply darkens what is underneath instead of covering it
+    highlighter: { thinning: 0, widthScale: 2.5, roundCaps: false, nibAngle: null, opacity: 0.5, compositeOperation: 'multiply' },
+    calligraphy: { thinning: 0.3, widthScale: 1.5, roundCaps: false, nibAngle: 45, opacity: 1, compositeOperation: 'source-over' }
+};
+
+// Segments used for a half circle of a round cap
+const CAP_SEGMENTS = 8;
+const DOT_SEGMENTS = 16;
+
+// Pressure differences simplification keeps even on a straight stretch
+const PRESSURE_TOLERANCE = 0.1;
+
+// Pressure of a pointer event. Mice report 0.5 while pressed and some touch
+// screens 0 or 1, so only pens are taken at their word.
+export function pointerPressure(e: PointerEvent): number {
+    return e.pointerType === 'pen' ? e.pressure : 0.5;
+}
+
+// Stabilize the pointer by easing towards it: 0 follows it exactly, values
+// close to 1 lag behind and iron out shakes
+export function smoothPoint(previous: StrokePoint | null, next: StrokePoint, smoothing: number): StrokePoint {
+    if (!previous || smoothing <= 0) return next;
+
+    const follow = 1 - Math.min(smoothing, 0.95);
+    return {
+        x: previous.x + (next.x - previous.x) * follow,
+        y: previous.y + (next.y - previous.y) * follow,
+        pressure: previous.pressure + (next.pressure - previous.pressure) * follow
+    };
+}
+
+function distanceToSegment(point: StrokePoint, start: StrokePoint, end: StrokePoint): number {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const lengthSquared = dx * dx + dy * dy;
+    if (lengthSquared === 0) return Math.hypot(point.x - start.x, point.y - start.y);
+
+    const t = Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+    return Math.hypot(point.x - (start.x + t * dx), point.y - (start.y + t * dy));
+}
+
+// Ramer–Douglas–Peucker: drop points closer than `tolerance` to the line
+// through their neighbours. Points where the pressure changes noticeably are
+// kept so the width still varies in the same places.
+export function simplifyPoints(points: StrokePoint[], tolerance: number): StrokePoint[] {
+    if (points.length < 3) return points;
+
+    const keep = new Array(points.length).fill(false);
+    keep[0] = true;
+    keep[points.length - 1] = true;
+
+    const stack: Array<[number, number]> = [[0, points.length - 1]];
+    while (stack.length > 0) {
+        const [first, last] = stack.pop()!;
+        let farthest = -1;
+        let farthestDistance = tolerance;
+        for (let i = first + 1; i < last; i++) {
+            const pressureChange = Math.abs(points[i].pressure - points[first].pressure);
+            const distance = pressureChange > PRESSURE_TOLERANCE
+                ? Infinity
+                : distanceToSegment(points[i], points[first], points[last]);
+            if (distance > farthestDistance) {
+                farthest = i;
+                farthestDistance = distance;
+            }
+        }
+        if (farthest !== -1) {
+            keep[farthest] = true;
+            stack.push([first, farthest], [farthest, last]);
+        }
+    }
+    return points.filter((point, i) => keep[i]);
+}
+
+// Half the stroke width at a point heading in `angle` (radians)
+function halfWidth(point: StrokePoint, angle: number, size: number, brush: BrushSettings): number {
+    let width = size * brush.widthScale * (1 + brush.thinning * (point.pressure * 2 - 1));
+    if (brush.nibAngle !== null) {
+        // Thin when moving along the nib, full width across it
+        const across = Math.abs(Math.sin(angle - (brush.nibAngle * Math.PI) / 180));
+        width *= 0.15 + 0.85 * across;
+    }
+    return Math.max(0.25, width / 2);
+}
+
+// Points on an arc around `center`, from `fromAngle` turning by `sweep`, excluding both ends
+function arcPoints(center: StrokePoint, radius: number, fromAngle: number, sweep: number): number[] {
+    const result: number[] = [];
+    for (let i = 1; i < CAP_SEGMENTS; i++) {
+        const angle = fromAngle + (sweep * i) / CAP_SEGMENTS;
+        result.push(center.x + Math.cos(angle) * radius, center.y + Math.sin(angle) * radius);
+    }
+    return result;
+}
+
+// Closed polygon (flat x, y list) around the stroke, its width following
+// pressure and the preset. Drawn as a filled Konva.Line.
+export function strokeOutline(points: StrokePoint[], size: number, brush: BrushSettings): number[] {
+    if (points.length === 0) return [];
+
+    const first = points[0];
+    const last = points[points.length - 1];
+    if (points.every(point => point.x === first.x && point.y === first.y)) {
+        // A tap leaves a dot
+        const radius = halfWidth(first, Math.PI / 2, size, brush);
+        const dot: number[] = [];
+        for (let i = 0; i < DOT_SEGMENTS; i++) {
+            const angle = (Math.PI * 2 * i) / DOT_SEGMENTS;
+            dot.push(first.x + Math.cos(angle) * radius, first.y + Math.sin(angle) * radius);
+        }
+        return dot;
+    }
+
+    const left: number[] = [];
+    const right: number[] = [];
+    const angles: number[] = [];
+    points.forEach((point, i) => {
+        // Direction from the previous point to the next one, skipping repeats
+        let before = points[Math.max(0, i - 1)];
+        let after = points[Math.min(points.length - 1, i + 1)];
+        if (before.x === after.x && before.y === after.y) {
+            before = first;
+            after = last;
+        }
+        const angle = Math.atan2(after.y - before.y, after.x - before.x);
+        const offset = halfWidth(point, angle, size, brush);
+        const normalX = -Math.sin(angle) * offset;
+        const normalY = Math.cos(angle) * offset;
+
+        angles.push(angle);
+        left.push(point.x + normalX, point.y + normalY);
+        right.push(point.x - normalX, point.y - normalY);
+    });
+
+    const outline = [...left];
+    if (brush.roundCaps) {
+        const end = angles[angles.length - 1];
+        outline.push(...arcPoints(last, halfWidth(last, end, size, brush), end + Math.PI / 2, -Math.PI));
+    }
+    for (let i = right.length - 2; i >= 0; i -= 2) {
+        outline.push(right[i], right[i + 1]);
+    }
+    if (brush.roundCaps) {
+        const start = angles[0];
+        outline.push(...arcPoints(first, halfWidth(first, start, size, brush), start - Math.PI / 2, -Math.PI));
+    }
+    return outline;
+}
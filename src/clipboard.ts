@@ -0,0 +1,119 @@
+// Reading and writing the system clipboard for copy and paste of canvas nodes.
+// Copies are written as JSON text tagged with our format, next to a PNG for other apps.
+
+import { SerializedNode } from './project.js';
+import { imageURL } from './image-import.js';
+
+export const CLIPBOARD_FORMAT = 'drawcraft-clipboard';
+
+interface ClipboardPayload {
+    format: string;
+    nodes: SerializedNode[];
+}
+
+// What a paste brings in: our own nodes, an image (including SVG) from
+// elsewhere, or the URL of an image still to be fetched
+export type PastedContent =
+    | { kind: 'nodes'; nodes: SerializedNode[] }
+    | { kind: 'image'; image: Blob }
+    | { kind: 'url'; url: string };
+
+export function encodeNodes(nodes: SerializedNode[]): string {
+    const payload: ClipboardPayload = { format: CLIPBOARD_FORMAT, nodes };
+    return JSON.stringify(payload);
+}
+
+// Nodes from text we wrote ourselves, or null for any other text
+export function decodeNodes(text: string): SerializedNode[] | null {
+    if (!text || text.indexOf(CLIPBOARD_FORMAT) === -1) return null;
+    try {
+        const payload = JSON.parse(text);
+        return payload && payload.format === CLIPBOARD_FORMAT && Array.isArray(payload.nodes) ? payload.nodes : null;
+    } catch (error) {
+        return null;
+    }
+}
+
+export function dataURLToBlob(dataURL: string): Blob {
+    const comma = dataURL.indexOf(',');
+    const header = dataURL.substring(0, comma);
+    const data = dataURL.substring(comma + 1);
+    const mimeType = header.substring(header.indexOf(':') + 1).split(';')[0];
+    // e.g. SVG is often URL-encoded text rather than base64
+    if (header.indexOf(';base64') === -1) {
+        return new Blob([decodeURIComponent(data)], { type: mimeType });
+    }
+
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+}
+
+function isSVGMarkup(text: string): boolean {
+    return /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(text);
+}
+
+// Our nodes win over an image, an image file over SVG markup, and SVG over a URL
+function pastedContent(text: string, svg: string, image: Blob | null): PastedContent | null {
+    const nodes = decodeNodes(text);
+    if (nodes) return { kind: 'nodes', nodes };
+
+    if (image) return { kind: 'image', image };
+
+    const markup = isSVGMarkup(svg) ? svg : isSVGMarkup(text) ? text : null;
+    if (markup) return { kind: 'image', image: new Blob([markup], { type: 'image/svg+xml' }) };
+
+    const url = imageURL(text);
+    return url ? { kind: 'url', url } : null;
+}
+
+// Content of a paste event. The DataTransfer is emptied once the event
+// handler returns, so everything is read from it up front.
+export function readPasteEvent(data: DataTransfer): PastedContent | null {
+    const text = data.getData('text/plain');
+    const svg = data.getData('image/svg+xml');
+    const image = Array.from(data.files).find(file => file.type.startsWith('image/') && file.type !== 'image/svg+xml');
+    const svgFile = Array.from(data.files).find(file => file.type === 'image/svg+xml');
+
+    return pastedContent(text, svg, image || svgFile || null);
+}
+
+// Read the system clipboard outside a paste event, e.g. from the context menu.
+// Browsers may ask for permission; a refusal rejects.
+export async function readSystemClipboard(): Promise<PastedContent | null> {
+    if (!navigator.clipboard || !navigator.clipboard.read) return null;
+
+    let text = '';
+    let svg = '';
+    let image: Blob | null = null;
+    const items = await navigator.clipboard.read();
+    for (const item of items) {
+        for (const type of item.types) {
+            if (type === 'text/plain' && !text) {
+                text = await (await item.getType(type)).text();
+            } else if (type === 'image/svg+xml' && !svg) {
+                svg = await (await item.getType(type)).text();
+            } else if (type.startsWith('image/') && !image) {
+                image = await item.getType(type);
+            }
+        }
+    }
+    return pastedContent(text, svg, image);
+}
+
+// Put copied nodes on the system clipboard, with a PNG where the browser supports images
+export async function writeSystemClipboard(text: string, png: Blob | null): Promise<void> {
+    if (!navigator.clipboard) return;
+
+    if (png && typeof ClipboardItem !== 'undefined' && navigator.clipboard.write) {
+        await navigator.clipboard.write([new ClipboardItem({
+            'text/plain': new Blob([text], { type: 'text/plain' }),
+            'image/png': png
+        })]);
+        return;
+    }
+    await navigator.clipboard.writeText(text);
+}
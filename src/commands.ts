@@ -0,0 +1,186 @@
+import { Command } from './history.js';
+
+// Where a node lives in the scene graph, so it can be put back after removal
+export interface NodePlacement {
+    node: any; // Konva.Node
+    parent: any; // Konva.Container
+    index: number;
+}
+
+// Before/after attribute snapshots for a single node
+export interface AttrsChange {
+    node: any; // Konva.Node
+    before: Record<string, any>;
+    after: Record<string, any>;
+}
+
+export function capturePlacements(nodes: any[]): NodePlacement[] {
+    return nodes
+        .filter(node => node.getParent())
+        .map(node => ({
+            node,
+            parent: node.getParent(),
+            index: node.zIndex()
+        }));
+}
+
+export function captureAttrs(node: any): Record<string, any> {
+    return { ...node.getAttrs() };
+}
+
+// Apply an attribute snapshot, resetting attrs that were not present in it
+export function applyAttrs(node: any, attrs: Record<string, any>): void {
+    const next: Record<string, any> = {};
+    Object.keys(node.getAttrs()).forEach(key => {
+        next[key] = undefined;
+    });
+    Object.keys(attrs).forEach(key => {
+        next[key] = attrs[key];
+    });
+    node.setAttrs(next);
+}
+
+export function attrsEqual(a: Record<string, any>, b: Record<string, any>): boolean {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+        const left = a[key];
+        const right = b[key];
+        if (Array.isArray(left) && Array.isArray(right)) {
+            if (left.length !== right.length || left.some((value, i) => value !== right[i])) {
+                return false;
+            }
+        } else if (left !== right) {
+            return false;
+        }
+    }
+    return true;
+}
+
+function redrawLayers(nodes: any[]): void {
+    const layers = new Set<any>();
+    nodes.forEach(node => {
+        const layer = node.getLayer();
+        if (layer) layers.add(layer);
+    });
+    layers.forEach(layer => layer.batchDraw());
+}
+
+function attachPlacements(placements: NodePlacement[]): void {
+    // Re-insert lowest index first so later indices are still valid
+    [...placements]
+        .sort((a, b) => a.index - b.index)
+        .forEach(({ node, parent, index }) => {
+            parent.add(node);
+            node.zIndex(Math.min(index, parent.getChildren().length - 1));
+        });
+    redrawLayers(placements.map(p => p.node));
+}
+
+function detachPlacements(placements: NodePlacement[]): void {
+    const layers = placements.map(p => p.node.getLayer()).filter(Boolean);
+    placements.forEach(({ node }) => node.remove());
+    layers.forEach(layer => layer.batchDraw());
+}
+
+// Adds nodes to the canvas (undo removes them again)
+export class AddNodesCommand implements Command {
+    public label: string;
+    private placements: NodePlacement[];
+
+    constructor(label: string, placements: NodePlacement[]) {
+        this.label = label;
+        this.placements = placements;
+    }
+
+    public execute(): void {
+        attachPlacements(this.placements);
+    }
+
+    public undo(): void {
+        detachPlacements(this.placements);
+    }
+}
+
+// Removes nodes from the canvas without destroying them, so undo can restore
+// the very same nodes along with their event handlers
+export class RemoveNodesCommand implements Command {
+    public label: string;
+    private placements: NodePlacement[];
+
+    constructor(label: string, nodes: any[]) {
+        this.label = label;
+        this.placements = capturePlacements(nodes);
+    }
+
+    public execute(): void {
+        detachPlacements(this.placements);
+    }
+
+    public undo(): void {
+        attachPlacements(this.placements);
+    }
+}
+
+// Moves nodes between parents or stacking positions, e.g. restacking layers
+// or sending shapes to another layer. Placements are captured before and after.
+export class MoveNodesCommand implements Command {
+    public label: string;
+    private before: NodePlacement[];
+    private after: NodePlacement[];
+
+    constructor(label: string, before: NodePlacement[], after: NodePlacement[]) {
+        this.label = label;
+        this.before = before;
+        this.after = after;
+    }
+
+    public execute(): void {
+        detachPlacements(this.before);
+        attachPlacements(this.after);
+    }
+
+    public undo(): void {
+        detachPlacements(this.after);
+        attachPlacements(this.before);
+    }
+}
+
+// Attribute changes such as move, resize or a text edit
+export class AttrsCommand implements Command {
+    public label: string;
+    private changes: AttrsChange[];
+
+    constructor(label: string, changes: AttrsChange[]) {
+        this.label = label;
+        this.changes = changes;
+    }
+
+    public execute(): void {
+        this.changes.forEach(({ node, after }) => applyAttrs(node, after));
+        redrawLayers(this.changes.map(c => c.node));
+    }
+
+    public undo(): void {
+        this.changes.forEach(({ node, before }) => applyAttrs(node, before));
+        redrawLayers(this.changes.map(c => c.node));
+    }
+}
+
+// Several commands that are undone and redone as a single step
+export class CompositeCommand implements Command {
+    public label: string;
+    private commands: Command[];
+
+    constructor(label: string, commands: Command[]) {
+        this.label = label;
+        this.commands = commands;
+    }
+
+    public execute(): void {
+        this.commands.forEach(command => command.execute());
+    }
+
+    public undo(): void {
+        [...this.commands].reverse().forEach(command => command.undo());
+    }
+}
@@ -0,0 +1,232 @@
+// Right-click menu for the canvas. Arrow keys move between items, Right and
+// Left open and close submenus, Enter or Space runs an item and Escape closes it.
+
+export interface ContextMenuItem {
+    label: string;
+    shortcut?: string;
+    disabled?: boolean;
+    checked?: boolean;
+    action?: () => void;
+    submenu?: ContextMenuEntry[];
+}
+
+export type ContextMenuEntry = ContextMenuItem | 'separator';
+
+export class ContextMenu {
+    private menu: HTMLElement | null;
+    private returnFocus: HTMLElement | null = null; // Focused before the menu opened
+
+    constructor() {
+        this.menu = document.getElementById('context-menu');
+
+        if (!this.menu) {
+            console.error('Context menu element not found');
+            return;
+        }
+
+        this.menu.tabIndex = -1;
+        this.menu.addEventListener('contextmenu', (e: MouseEvent) => e.preventDefault());
+
+        // Any press outside the menu closes it
+        document.addEventListener('pointerdown', (e: PointerEvent) => {
+            if (this.isOpen() && !this.menu!.contains(e.target as Node)) {
+                this.hide();
+            }
+        }, true);
+        // Capture keys before the app's shortcuts see them
+        document.addEventListener('keydown', (e: KeyboardEvent) => {
+            if (this.isOpen()) {
+                this.handleKeyDown(e);
+            }
+        }, true);
+        window.addEventListener('blur', () => this.hide());
+        window.addEventListener('resize', () => this.hide());
+    }
+
+    public isOpen(): boolean {
+        return !!this.menu && this.menu.style.display === 'block';
+    }
+
+    // Open at a point in client coordinates, kept inside the window. Menus
+    // opened from the keyboard start with the first item focused.
+    public show(clientX: number, clientY: number, entries: ContextMenuEntry[], focusFirst: boolean = false): void {
+        if (!this.menu || entries.length === 0) return;
+
+        if (!this.isOpen()) {
+            this.returnFocus = document.activeElement as HTMLElement;
+        }
+        this.menu.innerHTML = '';
+        this.fill(this.menu, entries);
+        this.menu.style.display = 'block';
+
+        const width = this.menu.offsetWidth;
+        const height = this.menu.offsetHeight;
+        this.menu.style.left = `${Math.max(0, Math.min(clientX, window.innerWidth - width - 4))}px`;
+        this.menu.style.top = `${Math.max(0, Math.min(clientY, window.innerHeight - height - 4))}px`;
+        // Open submenus to the left when there is no room on the right
+        this.menu.classList.toggle('submenus-left', clientX + width * 2 > window.innerWidth);
+
+        const first = this.items(this.menu)[0];
+        if (focusFirst && first) {
+            this.focusItem(first);
+        } else {
+            this.menu.focus();
+        }
+    }
+
+    public hide(): void {
+        if (!this.menu || !this.isOpen()) return;
+
+        this.menu.style.display = 'none';
+        if (this.returnFocus && document.body.contains(this.returnFocus)) {
+            this.returnFocus.focus();
+        }
+        this.returnFocus = null;
+    }
+
+    private fill(list: HTMLElement, entries: ContextMenuEntry[]): void {
+        entries.forEach(entry => {
+            const row = document.createElement('li');
+
+            if (entry === 'separator') {
+                row.className = 'context-menu-separator';
+                row.setAttribute('role', 'separator');
+                list.appendChild(row);
+                return;
+            }
+
+            row.className = 'context-menu-item';
+            row.tabIndex = -1;
+            row.setAttribute('role', entry.checked === undefined ? 'menuitem' : 'menuitemradio');
+            if (entry.checked !== undefined) {
+                row.setAttribute('aria-checked', String(entry.checked));
+            }
+            if (entry.disabled) {
+                row.classList.add('disabled');
+                row.setAttribute('aria-disabled', 'true');
+            }
+
+            const label = document.createElement('span');
+            label.className = 'context-menu-label';
+            label.textContent = entry.checked ? `✓ ${entry.label}` : entry.label;
+            row.appendChild(label);
+
+            if (entry.shortcut) {
+                const shortcut = document.createElement('span');
+                shortcut.className = 'context-menu-shortcut';
+                shortcut.textContent = entry.shortcut;
+                row.appendChild(shortcut);
+            }
+
+            if (entry.submenu) {
+                row.classList.add('has-submenu');
+                row.setAttribute('aria-haspopup', 'menu');
+                const submenu = document.createElement('ul');
+                submenu.className = 'context-menu context-submenu';
+                submenu.setAttribute('role', 'menu');
+                this.fill(submenu, entry.submenu);
+                row.appendChild(submenu);
+            }
+
+            row.addEventListener('mouseenter', () => {
+                this.focusItem(row);
+                this.openSubmenu(row, false);
+            });
+            row.addEventListener('click', (e: MouseEvent) => {
+                e.stopPropagation();
+                if (entry.disabled) return;
+                if (entry.submenu) {
+                    // Touch has no hover, so a tap opens the submenu
+                    this.openSubmenu(row, true);
+                    return;
+                }
+                this.hide();
+                if (entry.action) {
+                    entry.action();
+                }
+            });
+
+            list.appendChild(row);
+        });
+    }
+
+    // Enabled items directly inside a menu or submenu
+    private items(list: HTMLElement): HTMLElement[] {
+        return Array.from(list.children).filter(child =>
+            child.classList.contains('context-menu-item') && !child.classList.contains('disabled')
+        ) as HTMLElement[];
+    }
+
+    // Focus an item and close any other submenu open at the same level
+    private focusItem(row: HTMLElement): void {
+        const list = row.parentElement;
+        if (list) {
+            Array.from(list.children).forEach(sibling => {
+                if (sibling !== row) sibling.classList.remove('open');
+            });
+        }
+        row.focus();
+    }
+
+    private openSubmenu(row: HTMLElement, focusFirst: boolean): void {
+        if (!row.classList.contains('has-submenu') || row.classList.contains('disabled')) return;
+
+        row.classList.add('open');
+        row.setAttribute('aria-expanded', 'true');
+        const submenu = row.querySelector('.context-submenu') as HTMLElement;
+        const first = submenu ? this.items(submenu)[0] : null;
+        if (focusFirst && first) {
+            this.focusItem(first);
+        }
+    }
+
+    private handleKeyDown(e: KeyboardEvent): void {
+        const focused = document.activeElement as HTMLElement;
+        const row = focused && focused.classList.contains('context-menu-item') ? focused : null;
+        const list = row && row.parentElement ? row.parentElement : this.menu!;
+        const items = this.items(list);
+        const index = row ? items.indexOf(row) : -1;
+
+        switch (e.key) {
+            case 'Escape':
+                this.hide();
+                break;
+            case 'ArrowDown':
+                if (items.length > 0) this.focusItem(items[(index + 1) % items.length]);
+                break;
+            case 'ArrowUp':
+                if (items.length > 0) this.focusItem(items[index <= 0 ? items.length - 1 : index - 1]);
+                break;
+            case 'Home':
+                if (items.length > 0) this.focusItem(items[0]);
+                break;
+            case 'End':
+                if (items.length > 0) this.focusItem(items[items.length - 1]);
+                break;
+            case 'ArrowRight':
+                if (row) this.openSubmenu(row, true);
+                break;
+            case 'ArrowLeft': {
+                // Back to the item that opened this submenu
+                const parentRow = list !== this.menu ? list.parentElement : null;
+                if (parentRow) {
+                    parentRow.classList.remove('open');
+                    parentRow.removeAttribute('aria-expanded');
+                    parentRow.focus();
+                }
+                break;
+            }
+            case 'Enter':
+            case ' ':
+                if (row) row.click();
+                break;
+            case 'Tab':
+                // Keep focus inside the menu
+                break;
+            default:
+                return;
+        }
+        e.preventDefault();
+        e.stopPropagation();
+    }
+}
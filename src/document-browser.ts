@@ -0,0 +1,173 @@
+// Modal browser for the local document library
+
+import { DocumentStore, StoredDocument } from './storage.js';
+
+export interface DocumentBrowserActions {
+    activeDocumentId(): string;
+    openDocument(id: string): Promise<void>;
+    createDocument(): Promise<void>;
+    duplicateDocument(id: string): Promise<void>;
+    deleteDocument(id: string): Promise<void>;
+    renameDocument(id: string, currentName: string): void;
+}
+
+export class DocumentBrowser {
+    private store: DocumentStore;
+    private actions: DocumentBrowserActions;
+    private modal: HTMLElement | null;
+    private searchInput: HTMLInputElement | null;
+    private list: HTMLElement | null;
+    private documents: StoredDocument[] = [];
+
+    constructor(store: DocumentStore, actions: DocumentBrowserActions) {
+        this.store = store;
+        this.actions = actions;
+        this.modal = document.getElementById('documents-modal');
+        this.searchInput = document.getElementById('documents-search') as HTMLInputElement;
+        this.list = document.getElementById('documents-list');
+
+        const newButton = document.getElementById('documents-new');
+        const closeButton = document.getElementById('documents-close');
+
+        if (!this.modal || !this.searchInput || !this.list || !newButton || !closeButton) {
+            console.error('Document browser elements not found');
+            return;
+        }
+
+        this.searchInput.addEventListener('input', () => this.render());
+
+        newButton.addEventListener('click', async () => {
+            await this.actions.createDocument();
+            this.hide();
+        });
+
+        closeButton.addEventListener('click', () => this.hide());
+
+        // Close when clicking the backdrop or pressing Escape
+        this.modal.addEventListener('click', (e: MouseEvent) => {
+            if (e.target === this.modal) {
+                this.hide();
+            }
+        });
+        this.modal.addEventListener('keydown', (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                this.hide();
+            }
+        });
+    }
+
+    public async show(): Promise<void> {
+        if (!this.modal || !this.searchInput) return;
+
+        this.searchInput.value = '';
+        this.modal.style.display = 'flex';
+        this.searchInput.focus();
+        await this.refresh();
+    }
+
+    public hide(): void {
+        if (this.modal) {
+            this.modal.style.display = 'none';
+        }
+    }
+
+    public isOpen(): boolean {
+        return !!this.modal && this.modal.style.display === 'flex';
+    }
+
+    // Reload the library from storage and redraw the list
+    public async refresh(): Promise<void> {
+        try {
+            this.documents = await this.store.listDocuments();
+        } catch (error) {
+            console.error('Error loading documents:', error);
+            this.documents = [];
+        }
+        this.render();
+    }
+
+    private render(): void {
+        if (!this.list || !this.searchInput) return;
+
+        const query = this.searchInput.value.trim().toLowerCase();
+        const matches = this.documents.filter(doc => doc.name.toLowerCase().includes(query));
+
+        this.list.innerHTML = '';
+
+        if (matches.length === 0) {
+            const message = document.createElement('div');
+            message.className = 'documents-empty';
+            message.textContent = query ? 'No documents match your search.' : 'No saved documents yet.';
+            this.list.appendChild(message);
+            return;
+        }
+
+        matches.forEach(doc => this.list!.appendChild(this.createCard(doc)));
+    }
+
+    private createCard(doc: StoredDocument): HTMLElement {
+        const card = document.createElement('div');
+        card.className = 'document-card';
+        if (doc.id === this.actions.activeDocumentId()) {
+            card.classList.add('active');
+        }
+
+        const preview = document.createElement('div');
+        preview.className = 'document-thumbnail';
+        if (doc.thumbnail) {
+            const img = document.createElement('img');
+            img.src = doc.thumbnail;
+            img.alt = doc.name;
+            preview.appendChild(img);
+        } else {
+            preview.textContent = 'Empty';
+        }
+        preview.addEventListener('click', () => this.open(doc.id));
+        card.appendChild(preview);
+
+        const name = document.createElement('div');
+        name.className = 'document-name';
+        name.textContent = doc.name;
+        name.title = doc.name;
+        card.appendChild(name);
+
+        const modified = document.createElement('div');
+        modified.className = 'document-modified';
+        modified.textContent = `Modified ${new Date(doc.updatedAt).toLocaleString()}`;
+        card.appendChild(modified);
+
+        const actions = document.createElement('div');
+        actions.className = 'document-actions';
+
+        const addAction = (label: string, title: string, handler: () => void) => {
+            const button = document.createElement('button');
+            button.textContent = label;
+            button.title = title;
+            button.addEventListener('click', (e: MouseEvent) => {
+                e.stopPropagation();
+                handler();
+            });
+            actions.appendChild(button);
+        };
+
+        addAction('Open', 'Open document', () => this.open(doc.id));
+        addAction('Rename', 'Rename document', () => this.actions.renameDocument(doc.id, doc.name));
+        addAction('Duplicate', 'Duplicate document', async () => {
+            await this.actions.duplicateDocument(doc.id);
+            await this.refresh();
+        });
+        addAction('Delete', 'Delete document', async () => {
+            if (!confirm(`Delete "${doc.name}"? This cannot be undone.`)) return;
+            await this.actions.deleteDocument(doc.id);
+            await this.refresh();
+        });
+
+        card.appendChild(actions);
+        return card;
+    }
+
+    private async open(id: string): Promise<void> {
+        await this.actions.openDocument(id);
+        this.hide();
+    }
+}
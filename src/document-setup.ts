@@ -0,0 +1,130 @@
+// Canvas settings for a document: a fixed artboard or an unbounded canvas,
+// and the dialog that edits them
+
+declare const Konva: any;
+
+export type CanvasMode = 'artboard' | 'infinite';
+
+export interface CanvasSettings {
+    mode: CanvasMode;
+    // Artboard size; kept while in infinite mode so switching back restores it
+    width: number;
+    height: number;
+    background: string;
+}
+
+export const DEFAULT_CANVAS_SETTINGS: CanvasSettings = {
+    mode: 'artboard',
+    width: 3000,
+    height: 3000,
+    background: '#ffffff'
+};
+
+// Konva name of the layer below the user layers that draws the page
+export const ARTBOARD_LAYER_NAME = 'artboard';
+
+export function createArtboardLayer(): any {
+    const layer = new Konva.Layer({ name: ARTBOARD_LAYER_NAME, listening: false });
+    layer.add(new Konva.Rect({
+        name: 'artboard-page',
+        x: 0,
+        y: 0,
+        shadowColor: 'rgba(0, 0, 0, 0.25)',
+        shadowBlur: 12,
+        shadowOffset: { x: 0, y: 2 },
+        strokeScaleEnabled: false,
+        perfectDrawEnabled: false
+    }));
+    return layer;
+}
+
+// Size and color the page to match the settings; it is hidden on an infinite canvas
+export function updateArtboardLayer(layer: any, settings: CanvasSettings): void {
+    const page = layer.findOne('.artboard-page');
+    page.setAttrs({
+        width: settings.width,
+        height: settings.height,
+        fill: settings.background
+    });
+    layer.visible(settings.mode === 'artboard');
+    layer.batchDraw();
+}
+
+export class DocumentSetupDialog {
+    private modal: HTMLElement | null;
+    private form: HTMLFormElement | null;
+    private onApply: (settings: CanvasSettings) => void;
+
+    constructor(onApply: (settings: CanvasSettings) => void) {
+        this.onApply = onApply;
+        this.modal = document.getElementById('setup-modal');
+        this.form = document.getElementById('setup-form') as HTMLFormElement;
+
+        const cancelButton = document.getElementById('setup-cancel');
+
+        if (!this.modal || !this.form || !cancelButton) {
+            console.error('Document setup dialog elements not found');
+            return;
+        }
+
+        this.form.addEventListener('submit', (e: Event) => {
+            e.preventDefault();
+            const settings = this.readSettings();
+            this.hide();
+            this.onApply(settings);
+        });
+
+        cancelButton.addEventListener('click', () => this.hide());
+
+        // Size only applies to an artboard
+        this.form.querySelectorAll('input[name="mode"]').forEach(input => {
+            input.addEventListener('change', () => this.updateModeControls());
+        });
+
+        this.modal.addEventListener('keydown', (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                this.hide();
+            }
+        });
+    }
+
+    public show(settings: CanvasSettings): void {
+        if (!this.modal || !this.form) return;
+
+        const field = (name: string) => this.form!.elements.namedItem(name) as HTMLInputElement;
+        (this.form.querySelector(`input[name="mode"][value="${settings.mode}"]`) as HTMLInputElement).checked = true;
+        field('width').value = String(settings.width);
+        field('height').value = String(settings.height);
+        field('background').value = settings.background;
+
+        this.updateModeControls();
+        this.modal.style.display = 'flex';
+        field('width').focus();
+    }
+
+    public hide(): void {
+        if (this.modal) {
+            this.modal.style.display = 'none';
+        }
+    }
+
+    private updateModeControls(): void {
+        const artboard = this.readSettings().mode === 'artboard';
+        (this.form!.elements.namedItem('width') as HTMLInputElement).disabled = !artboard;
+        (this.form!.elements.namedItem('height') as HTMLInputElement).disabled = !artboard;
+    }
+
+    private readSettings(): CanvasSettings {
+        const form = this.form!;
+        const value = (name: string) => (form.elements.namedItem(name) as HTMLInputElement).value;
+        const checked = form.querySelector('input[name="mode"]:checked') as HTMLInputElement;
+        const size = (name: string, fallback: number) => Math.min(20000, Math.max(100, parseInt(value(name), 10) || fallback));
+
+        return {
+            mode: checked && checked.value === 'infinite' ? 'infinite' : 'artboard',
+            width: size('width', DEFAULT_CANVAS_SETTINGS.width),
+            height: size('height', DEFAULT_CANVAS_SETTINGS.height),
+            background: value('background') || DEFAULT_CANVAS_SETTINGS.background
+        };
+    }
+}
@@ -0,0 +1,206 @@
+// Path geometry shared by the vector exporters
+
+export interface PathOp {
+    op: 'M' | 'L' | 'Q' | 'C' | 'Z';
+    c: number[];
+}
+
+// Bézier handle length for approximating a quarter ellipse
+const KAPPA = 0.5522847498;
+
+// Segments for a Konva.Line, converting tension to the same Bézier curves Konva draws
+export function linePathOps(node: any): PathOp[] {
+    const points: number[] = node.points();
+    const length = points.length;
+    const tension = node.tension();
+    const closed = node.closed();
+    if (!length) return [];
+
+    const ops: PathOp[] = [{ op: 'M', c: [points[0], points[1]] }];
+
+    if (tension !== 0 && length > 4) {
+        const tp: number[] = node.getTensionPoints();
+        const len = tp.length;
+        let n = closed ? 0 : 4;
+        if (!closed) {
+            ops.push({ op: 'Q', c: tp.slice(0, 4) });
+        }
+        while (n < len - 2) {
+            ops.push({ op: 'C', c: tp.slice(n, n + 6) });
+            n += 6;
+        }
+        if (!closed) {
+            ops.push({ op: 'Q', c: [tp[len - 2], tp[len - 1], points[length - 2], points[length - 1]] });
+        }
+    } else if (node.bezier()) {
+        for (let n = 2; n < length; n += 6) {
+            ops.push({ op: 'C', c: points.slice(n, n + 6) });
+        }
+    } else {
+        for (let n = 2; n < length; n += 2) {
+            ops.push({ op: 'L', c: [points[n], points[n + 1]] });
+        }
+    }
+
+    if (closed) {
+        ops.push({ op: 'Z', c: [] });
+    }
+    return ops;
+}
+
+// Ellipse centred on the origin, as four cubic curves
+export function ellipsePathOps(rx: number, ry: number): PathOp[] {
+    const ox = rx * KAPPA;
+    const oy = ry * KAPPA;
+    return [
+        { op: 'M', c: [rx, 0] },
+        { op: 'C', c: [rx, oy, ox, ry, 0, ry] },
+        { op: 'C', c: [-ox, ry, -rx, oy, -rx, 0] },
+        { op: 'C', c: [-rx, -oy, -ox, -ry, 0, -ry] },
+        { op: 'C', c: [ox, -ry, rx, -oy, rx, 0] },
+        { op: 'Z', c: [] }
+    ];
+}
+
+// Rectangle from the origin, with optional uniform corner radius
+export function rectPathOps(width: number, height: number, radius: number = 0): PathOp[] {
+    const r = Math.max(0, Math.min(radius, width / 2, height / 2));
+    if (r === 0) {
+        return [
+            { op: 'M', c: [0, 0] },
+            { op: 'L', c: [width, 0] },
+            { op: 'L', c: [width, height] },
+            { op: 'L', c: [0, height] },
+            { op: 'Z', c: [] }
+        ];
+    }
+
+    const k = r * (1 - KAPPA);
+    return [
+        { op: 'M', c: [r, 0] },
+        { op: 'L', c: [width - r, 0] },
+        { op: 'C', c: [width - k, 0, width, k, width, r] },
+        { op: 'L', c: [width, height - r] },
+        { op: 'C', c: [width, height - k, width - k, height, width - r, height] },
+        { op: 'L', c: [r, height] },
+        { op: 'C', c: [k, height, 0, height - k, 0, height - r] },
+        { op: 'L', c: [0, r] },
+        { op: 'C', c: [0, k, k, 0, r, 0] },
+        { op: 'Z', c: [] }
+    ];
+}
+
+// Konva.RegularPolygon, first vertex straight up from the centre
+export function regularPolygonPathOps(sides: number, radius: number): PathOp[] {
+    const ops: PathOp[] = [];
+    for (let n = 0; n < sides; n++) {
+        const angle = (n * 2 * Math.PI) / sides;
+        ops.push({ op: n === 0 ? 'M' : 'L', c: [radius * Math.sin(angle), -radius * Math.cos(angle)] });
+    }
+    ops.push({ op: 'Z', c: [] });
+    return ops;
+}
+
+// Konva.Star, alternating outer and inner vertices
+export function starPathOps(numPoints: number, innerRadius: number, outerRadius: number): PathOp[] {
+    const ops: PathOp[] = [{ op: 'M', c: [0, -outerRadius] }];
+    for (let n = 1; n < numPoints * 2; n++) {
+        const radius = n % 2 === 0 ? outerRadius : innerRadius;
+        const angle = (n * Math.PI) / numPoints;
+        ops.push({ op: 'L', c: [radius * Math.sin(angle), -radius * Math.cos(angle)] });
+    }
+    ops.push({ op: 'Z', c: [] });
+    return ops;
+}
+
+// Triangular heads of a Konva.Arrow, one closed subpath per enabled end
+export function arrowHeadPathOps(node: any): PathOp[] {
+    const points: number[] = node.points();
+    const n = points.length;
+    if (n < 4) return [];
+
+    const length = node.pointerLength();
+    const width = node.pointerWidth();
+    // Curved arrows point along the tangent, i.e. towards the nearest control point
+    const tp: number[] = node.tension() !== 0 && n > 4 ? node.getTensionPoints() : points;
+
+    const head = (tipX: number, tipY: number, fromX: number, fromY: number): PathOp[] => {
+        const angle = Math.atan2(tipY - fromY, tipX - fromX);
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const corner = (dx: number, dy: number) => [tipX + dx * cos - dy * sin, tipY + dx * sin + dy * cos];
+        return [
+            { op: 'M', c: [tipX, tipY] },
+            { op: 'L', c: corner(-length, width / 2) },
+            { op: 'L', c: corner(-length, -width / 2) },
+            { op: 'Z', c: [] }
+        ];
+    };
+
+    const ops: PathOp[] = [];
+    if (node.pointerAtEnding()) {
+        const from = tp === points ? [points[n - 4], points[n - 3]] : [tp[tp.length - 2], tp[tp.length - 1]];
+        ops.push(...head(points[n - 2], points[n - 1], from[0], from[1]));
+    }
+    if (node.pointerAtBeginning()) {
+        const from = tp === points ? [points[2], points[3]] : [tp[0], tp[1]];
+        ops.push(...head(points[0], points[1], from[0], from[1]));
+    }
+    return ops;
+}
+
+// Map every point through a Konva.Transform. Affine transforms keep Bézier
+// curves intact, so only the control points need to move.
+export function transformPathOps(ops: PathOp[], transform: any): PathOp[] {
+    return ops.map(({ op, c }) => {
+        const mapped: number[] = [];
+        for (let i = 0; i < c.length; i += 2) {
+            const p = transform.point({ x: c[i], y: c[i + 1] });
+            mapped.push(p.x, p.y);
+        }
+        return { op, c: mapped };
+    });
+}
+
+// Raise quadratic segments to cubic ones for outputs that only support cubics
+export function toCubicPathOps(ops: PathOp[]): PathOp[] {
+    const result: PathOp[] = [];
+    let x = 0;
+    let y = 0;
+    let startX = 0;
+    let startY = 0;
+
+    ops.forEach(({ op, c }) => {
+        if (op === 'Q') {
+            const [qx, qy, ex, ey] = c;
+            result.push({
+                op: 'C',
+                c: [
+                    x + (2 / 3) * (qx - x), y + (2 / 3) * (qy - y),
+                    ex + (2 / 3) * (qx - ex), ey + (2 / 3) * (qy - ey),
+                    ex, ey
+                ]
+            });
+        } else {
+            result.push({ op, c });
+        }
+
+        if (op === 'M') {
+            startX = c[0];
+            startY = c[1];
+        }
+        if (op === 'Z') {
+            x = startX;
+            y = startY;
+        } else if (c.length >= 2) {
+            x = c[c.length - 2];
+            y = c[c.length - 1];
+        }
+    });
+
+    return result;
+}
+
+export function pathOpsToSVG(ops: PathOp[], format: (value: number) => string): string {
+    return ops.map(({ op, c }) => (c.length ? `${op} ${c.map(format).join(' ')}` : op)).join(' ');
+}
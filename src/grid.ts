@@ -0,0 +1,303 @@
+// Background grid, rulers and ruler guides, and the panel with their settings
+
+import { Rect } from './raster-export.js';
+
+declare const Konva: any;
+
+export type GridStyle = 'lines' | 'dots';
+
+export interface GridSettings {
+    showGrid: boolean;
+    spacing: number; // canvas units
+    style: GridStyle;
+    showRulers: boolean;
+    snapToGrid: boolean;
+    snapToGuides: boolean;
+    snapToShapes: boolean;
+}
+
+export const DEFAULT_GRID_SETTINGS: GridSettings = {
+    showGrid: false,
+    spacing: 20,
+    style: 'lines',
+    showRulers: true,
+    snapToGrid: false,
+    snapToGuides: true,
+    snapToShapes: true
+};
+
+export type GuideOrientation = 'horizontal' | 'vertical';
+
+// Saved with the project
+export interface Guide {
+    orientation: GuideOrientation;
+    position: number;
+}
+
+// Thickness of the rulers in CSS pixels
+export const RULER_SIZE = 20;
+
+// Grid lines closer together than this on screen are thinned out
+const MIN_GRID_SCREEN_SPACING = 8;
+
+// Layer that draws the grid across whatever part of the canvas is on screen
+export function createGridLayer(settings: () => GridSettings, viewport: () => Rect, scale: () => number): any {
+    const layer = new Konva.Layer({ name: 'grid', listening: false });
+    layer.add(new Konva.Shape({
+        perfectDrawEnabled: false,
+        sceneFunc: (context: any) => {
+            const { showGrid, style } = settings();
+            if (!showGrid) return;
+
+            const zoom = scale();
+            let spacing = settings().spacing;
+            while (spacing * zoom < MIN_GRID_SCREEN_SPACING) {
+                spacing *= 2;
+            }
+
+            const view = viewport();
+            const startX = Math.floor(view.x / spacing) * spacing;
+            const startY = Math.floor(view.y / spacing) * spacing;
+            const endX = view.x + view.width;
+            const endY = view.y + view.height;
+            const pixel = 1 / zoom;
+
+            if (style === 'dots') {
+                context.fillStyle = 'rgba(0, 0, 0, 0.3)';
+                for (let x = startX; x <= endX; x += spacing) {
+                    for (let y = startY; y <= endY; y += spacing) {
+                        context.fillRect(x - pixel, y - pixel, pixel * 2, pixel * 2);
+                    }
+                }
+                return;
+            }
+
+            context.beginPath();
+            for (let x = startX; x <= endX; x += spacing) {
+                context.moveTo(x, view.y);
+                context.lineTo(x, endY);
+            }
+            for (let y = startY; y <= endY; y += spacing) {
+                context.moveTo(view.x, y);
+                context.lineTo(endX, y);
+            }
+            context.strokeStyle = 'rgba(0, 0, 0, 0.08)';
+            context.lineWidth = pixel;
+            context.stroke();
+        }
+    }));
+    return layer;
+}
+
+// Tick spacing in canvas units that leaves at least `minPixels` between labels
+function rulerStep(scale: number, minPixels: number): number {
+    let step = 1;
+    const multipliers = [2, 2.5, 2]; // 1, 2, 5, 10, 20, 50, ...
+    let i = 0;
+    while (step * scale < minPixels) {
+        step *= multipliers[i % multipliers.length];
+        i++;
+    }
+    return step;
+}
+
+// Draw a ruler whose canvas coordinate 0 sits at screen offset `origin`
+export function drawRuler(canvas: HTMLCanvasElement, orientation: GuideOrientation, origin: number, scale: number): void {
+    const ratio = window.devicePixelRatio || 1;
+    const length = orientation === 'horizontal' ? canvas.clientWidth : canvas.clientHeight;
+    const width = orientation === 'horizontal' ? length : RULER_SIZE;
+    const height = orientation === 'horizontal' ? RULER_SIZE : length;
+
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.fillStyle = '#f8f9fa';
+    context.fillRect(0, 0, width, height);
+    context.fillStyle = '#6c757d';
+    context.strokeStyle = '#adb5bd';
+    context.font = '10px sans-serif';
+    context.lineWidth = 1;
+
+    // Ticks grow from the edge next to the canvas
+    const tick = (position: number, size: number) => {
+        if (orientation === 'horizontal') {
+            context.moveTo(position, RULER_SIZE);
+            context.lineTo(position, RULER_SIZE - size);
+        } else {
+            context.moveTo(RULER_SIZE, position);
+            context.lineTo(RULER_SIZE - size, position);
+        }
+    };
+    // Vertical labels read bottom to top, just past their tick
+    const label = (position: number, text: string) => {
+        if (orientation === 'horizontal') {
+            context.fillText(text, position + 3, 9);
+            return;
+        }
+        context.save();
+        context.translate(12, position + 3);
+        context.rotate(-Math.PI / 2);
+        context.textAlign = 'right';
+        context.fillText(text, 0, 0);
+        context.restore();
+    };
+
+    const step = rulerStep(scale, 50);
+    const minor = step / 5;
+    const first = Math.floor(-origin / scale / step) * step;
+    const last = (length - origin) / scale;
+
+    context.beginPath();
+    for (let value = first; value <= last; value += minor) {
+        const position = Math.round(origin + value * scale) + 0.5;
+        const major = Math.abs(value / step - Math.round(value / step)) < 1e-6;
+        tick(position, major ? RULER_SIZE : RULER_SIZE * 0.3);
+        if (major) {
+            label(position, String(Math.round(value)));
+        }
+    }
+    // Edge next to the canvas
+    if (orientation === 'horizontal') {
+        context.moveTo(0, RULER_SIZE - 0.5);
+        context.lineTo(length, RULER_SIZE - 0.5);
+    } else {
+        context.moveTo(RULER_SIZE - 0.5, 0);
+        context.lineTo(RULER_SIZE - 0.5, length);
+    }
+    context.stroke();
+}
+
+// Guide lines dragged out of the rulers. They live in the overlay layer and
+// are saved with the project separately from the shapes.
+export class Guides {
+    private group: any;
+    private onChange: () => void;
+    private isOverRuler: (guide: any) => boolean;
+
+    constructor(group: any, onChange: () => void, isOverRuler: (guide: any) => boolean) {
+        this.group = group;
+        this.onChange = onChange;
+        this.isOverRuler = isOverRuler;
+    }
+
+    public add(orientation: GuideOrientation, position: number): any {
+        const guide = new Konva.Line({
+            name: 'guide',
+            orientation,
+            points: orientation === 'horizontal' ? [-1e6, 0, 1e6, 0] : [0, -1e6, 0, 1e6],
+            x: orientation === 'vertical' ? position : 0,
+            y: orientation === 'horizontal' ? position : 0,
+            stroke: '#00b4d8',
+            strokeWidth: 1,
+            strokeScaleEnabled: false,
+            hitStrokeWidth: 6,
+            draggable: true,
+            // Guides only move across their own direction
+            dragBoundFunc: function (this: any, pos: { x: number; y: number }) {
+                const current = this.absolutePosition();
+                return orientation === 'horizontal' ? { x: current.x, y: pos.y } : { x: pos.x, y: current.y };
+            }
+        });
+
+        guide.on('mouseenter', () => {
+            document.body.style.cursor = orientation === 'horizontal' ? 'row-resize' : 'col-resize';
+        });
+        guide.on('mouseleave', () => {
+            document.body.style.cursor = 'default';
+        });
+        // Dropping a guide back on its ruler removes it
+        guide.on('dragend', () => {
+            if (this.isOverRuler(guide)) {
+                guide.destroy();
+                document.body.style.cursor = 'default';
+            }
+            this.group.getLayer().batchDraw();
+            this.onChange();
+        });
+
+        this.group.add(guide);
+        this.group.getLayer().batchDraw();
+        return guide;
+    }
+
+    public positions(orientation: GuideOrientation): number[] {
+        return this.nodes()
+            .filter(guide => guide.getAttr('orientation') === orientation)
+            .map(guide => (orientation === 'horizontal' ? guide.y() : guide.x()));
+    }
+
+    public serialize(): Guide[] {
+        return this.nodes().map(guide => {
+            const orientation: GuideOrientation = guide.getAttr('orientation');
+            return { orientation, position: orientation === 'horizontal' ? guide.y() : guide.x() };
+        });
+    }
+
+    public load(guides: Guide[]): void {
+        this.group.destroyChildren();
+        guides.forEach(guide => this.add(guide.orientation, guide.position));
+        this.group.getLayer().batchDraw();
+    }
+
+    public clear(): void {
+        if (this.nodes().length === 0) return;
+        this.group.destroyChildren();
+        this.group.getLayer().batchDraw();
+        this.onChange();
+    }
+
+    public setVisible(visible: boolean): void {
+        this.group.visible(visible);
+    }
+
+    private nodes(): any[] {
+        return this.group.getChildren();
+    }
+}
+
+export interface GridPanelActions {
+    settingsChanged(settings: GridSettings): void;
+    clearGuides(): void;
+}
+
+export class GridPanel {
+    private actions: GridPanelActions;
+    private form: HTMLFormElement | null;
+
+    constructor(actions: GridPanelActions) {
+        this.actions = actions;
+        this.form = document.getElementById('grid-form') as HTMLFormElement;
+
+        const clearGuidesButton = document.getElementById('clear-guides');
+
+        if (!this.form || !clearGuidesButton) {
+            console.error('Grid panel elements not found');
+            return;
+        }
+
+        this.form.addEventListener('change', () => this.actions.settingsChanged(this.settings()));
+        this.form.addEventListener('submit', (e: Event) => e.preventDefault());
+        clearGuidesButton.addEventListener('click', () => this.actions.clearGuides());
+    }
+
+    public settings(): GridSettings {
+        if (!this.form) return { ...DEFAULT_GRID_SETTINGS };
+
+        const field = (name: string) => this.form!.elements.namedItem(name) as HTMLInputElement;
+        const spacing = Math.min(500, Math.max(2, parseInt(field('spacing').value, 10) || DEFAULT_GRID_SETTINGS.spacing));
+        field('spacing').value = String(spacing);
+
+        return {
+            showGrid: field('showGrid').checked,
+            spacing,
+            style: field('style').value as GridStyle,
+            showRulers: field('showRulers').checked,
+            snapToGrid: field('snapToGrid').checked,
+            snapToGuides: field('snapToGuides').checked,
+            snapToShapes: field('snapToShapes').checked
+        };
+    }
+}
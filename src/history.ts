@@ -0,0 +1,90 @@
+// Command-based undo/redo history for canvas mutations
+
+export interface Command {
+    label: string;
+    execute(): void;
+    undo(): void;
+}
+
+export class HistoryManager {
+    private undoStack: Command[] = [];
+    private redoStack: Command[] = [];
+    private listeners: Array<() => void> = [];
+    private readonly limit: number;
+
+    constructor(limit: number = 100) {
+        this.limit = limit;
+    }
+
+    // Run a command and record it so it can be undone
+    public execute(command: Command): void {
+        command.execute();
+        this.record(command);
+    }
+
+    // Record a command whose effect has already been applied
+    // (e.g. a stroke that was drawn live on the canvas)
+    public record(command: Command): void {
+        this.undoStack.push(command);
+
+        // Drop the oldest entries once we exceed the bounded size
+        while (this.undoStack.length > this.limit) {
+            this.undoStack.shift();
+        }
+
+        // A new action invalidates anything that was undone
+        this.redoStack = [];
+        this.notify();
+    }
+
+    public undo(): boolean {
+        const command = this.undoStack.pop();
+        if (!command) return false;
+
+        command.undo();
+        this.redoStack.push(command);
+        this.notify();
+        return true;
+    }
+
+    public redo(): boolean {
+        const command = this.redoStack.pop();
+        if (!command) return false;
+
+        command.execute();
+        this.undoStack.push(command);
+        this.notify();
+        return true;
+    }
+
+    public canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    public canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    public undoLabel(): string | null {
+        return this.undoStack.length > 0 ? this.undoStack[this.undoStack.length - 1].label : null;
+    }
+
+    public redoLabel(): string | null {
+        return this.redoStack.length > 0 ? this.redoStack[this.redoStack.length - 1].label : null;
+    }
+
+    public clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.notify();
+    }
+
+    // Register a callback that runs whenever the stacks change
+    public onChange(listener: () => void): void {
+        this.listeners.push(listener);
+    }
+
+    private notify(): void {
+        this.listeners.forEach(listener => listener());
+    }
+}
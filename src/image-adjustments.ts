@@ -0,0 +1,207 @@
+// Non-destructive image adjustments and the inspector section that edits them.
+// Settings are plain attrs on the Konva.Image next to its untouched imageSrc;
+// what the canvas shows is a filtered cache of the node.
+
+declare const Konva: any;
+
+export interface ImageAdjustments {
+    brightness: number; // -1 to 1
+    contrast: number; // -100 to 100
+    saturation: number; // -1 to 1, each step halves or doubles
+    hue: number; // degrees
+    blurRadius: number;
+    pixelSize: number; // 1 is off
+    grayscale: boolean;
+    sepia: boolean;
+    invert: boolean;
+}
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+    brightness: 0,
+    contrast: 0,
+    saturation: 0,
+    hue: 0,
+    blurRadius: 0,
+    pixelSize: 1,
+    grayscale: false,
+    sepia: false,
+    invert: false
+};
+
+const ADJUSTMENT_KEYS = Object.keys(DEFAULT_ADJUSTMENTS) as (keyof ImageAdjustments)[];
+
+// The cache is rendered at up to this many bitmap pixels per node pixel, so
+// downscaled photos stay sharp when zoomed in
+const MAX_CACHE_PIXEL_RATIO = 4;
+
+// Images that adjustments apply to; groups are adjusted through their children
+export function imageTargets(nodes: any[]): any[] {
+    const targets: any[] = [];
+    nodes.forEach(node => {
+        if (node.getClassName() === 'Image') {
+            targets.push(node);
+        } else if (node.getClassName() === 'Group') {
+            targets.push(...node.find('Image'));
+        }
+    });
+    return targets;
+}
+
+export function readAdjustments(node: any): ImageAdjustments {
+    const adjustments: any = {};
+    ADJUSTMENT_KEYS.forEach(key => {
+        const value = node.getAttr(key);
+        adjustments[key] = value === undefined ? DEFAULT_ADJUSTMENTS[key] : value;
+    });
+    return adjustments as ImageAdjustments;
+}
+
+// Konva attrs for (part of) a set of adjustments. Defaults remove the attr,
+// which keeps untouched images free of filter settings in saved documents.
+export function adjustmentAttrs(adjustments: Partial<ImageAdjustments>): Record<string, any> {
+    const attrs: Record<string, any> = {};
+    ADJUSTMENT_KEYS.forEach(key => {
+        const value = adjustments[key];
+        if (value !== undefined) {
+            attrs[key] = value === DEFAULT_ADJUSTMENTS[key] ? undefined : value;
+        }
+    });
+    return attrs;
+}
+
+export function hasAdjustments(node: any): boolean {
+    return ADJUSTMENT_KEYS.some(key => node.getAttr(key) !== undefined && node.getAttr(key) !== DEFAULT_ADJUSTMENTS[key]);
+}
+
+// Rebuild the filter chain and cache from the node's attrs
+export function applyAdjustments(node: any): void {
+    const adjustments = readAdjustments(node);
+    const image = node.image();
+
+    node.clearCache();
+    if (!image || !hasAdjustments(node) || !node.width() || !node.height()) {
+        node.filters([]);
+        return;
+    }
+
+    const filters: any[] = [];
+    if (adjustments.pixelSize > 1) filters.push(Konva.Filters.Pixelate);
+    if (adjustments.blurRadius > 0) filters.push(Konva.Filters.Blur);
+    if (adjustments.brightness !== 0) filters.push(Konva.Filters.Brighten);
+    if (adjustments.contrast !== 0) filters.push(Konva.Filters.Contrast);
+    if (adjustments.saturation !== 0 || adjustments.hue !== 0) filters.push(Konva.Filters.HSL);
+    if (adjustments.grayscale) filters.push(Konva.Filters.Grayscale);
+    if (adjustments.sepia) filters.push(Konva.Filters.Sepia);
+    if (adjustments.invert) filters.push(Konva.Filters.Invert);
+    node.filters(filters);
+
+    const sourceWidth = node.cropWidth() || image.naturalWidth || image.width || node.width();
+    const pixelRatio = Math.min(MAX_CACHE_PIXEL_RATIO, Math.max(1, sourceWidth / node.width()));
+    node.cache({ pixelRatio });
+}
+
+// Keep the filtered cache in step with the node, including undo and redo,
+// which restore attrs without going through the inspector
+export function watchAdjustments(node: any): void {
+    const events = [...ADJUSTMENT_KEYS, 'image', 'width', 'height', 'cropX', 'cropY', 'cropWidth', 'cropHeight']
+        .map(key => `${key}Change.adjustments`)
+        .join(' ');
+    node.off('.adjustments');
+    node.on(events, () => {
+        applyAdjustments(node);
+        const layer = node.getLayer();
+        if (layer) layer.batchDraw();
+    });
+    applyAdjustments(node);
+}
+
+export interface ImageInspectorActions {
+    // Live change while a slider is being dragged
+    previewAdjustments(adjustments: Partial<ImageAdjustments>): void;
+    // Record everything previewed since the last commit as one undo step
+    commitAdjustments(): void;
+    resetAdjustments(): void;
+}
+
+export class ImageInspector {
+    private actions: ImageInspectorActions;
+    private section: HTMLElement | null;
+    private form: HTMLFormElement | null;
+    private resetButton: HTMLButtonElement | null;
+
+    constructor(actions: ImageInspectorActions) {
+        this.actions = actions;
+        this.section = document.getElementById('image-inspector');
+        this.form = document.getElementById('image-form') as HTMLFormElement;
+        this.resetButton = document.getElementById('image-reset') as HTMLButtonElement;
+
+        if (!this.section || !this.form || !this.resetButton) {
+            console.error('Image inspector elements not found');
+            return;
+        }
+
+        this.form.addEventListener('input', (e: Event) => {
+            this.actions.previewAdjustments(this.readField((e.target as HTMLInputElement).name));
+        });
+        this.form.addEventListener('change', () => this.actions.commitAdjustments());
+        this.form.addEventListener('submit', (e: Event) => e.preventDefault());
+
+        this.resetButton.addEventListener('click', () => this.actions.resetAdjustments());
+    }
+
+    // Show the adjustments of the first selected image, or hide without images
+    public render(nodes: any[]): void {
+        if (!this.section || !this.form || !this.resetButton) return;
+
+        const targets = imageTargets(nodes);
+        if (targets.length === 0) {
+            this.section.style.display = 'none';
+            return;
+        }
+
+        const adjustments = readAdjustments(targets[0]);
+        const field = (name: string) => this.form!.elements.namedItem(name) as HTMLInputElement;
+
+        field('brightness').value = String(Math.round(adjustments.brightness * 100));
+        field('contrast').value = String(Math.round(adjustments.contrast));
+        field('saturation').value = String(Math.round(adjustments.saturation * 100));
+        field('hue').value = String(Math.round(adjustments.hue));
+        field('blurRadius').value = String(adjustments.blurRadius);
+        field('pixelSize').value = String(adjustments.pixelSize);
+        field('grayscale').checked = adjustments.grayscale;
+        field('sepia').checked = adjustments.sepia;
+        field('invert').checked = adjustments.invert;
+
+        this.resetButton.disabled = !targets.some(node => hasAdjustments(node));
+        this.section.style.display = 'block';
+    }
+
+    // Translate the edited form field into an adjustment
+    private readField(name: string): Partial<ImageAdjustments> {
+        const field = this.form!.elements.namedItem(name) as HTMLInputElement;
+        const number = parseFloat(field.value) || 0;
+
+        switch (name) {
+            case 'brightness':
+                return { brightness: number / 100 };
+            case 'contrast':
+                return { contrast: number };
+            case 'saturation':
+                return { saturation: number / 100 };
+            case 'hue':
+                return { hue: number };
+            case 'blurRadius':
+                return { blurRadius: Math.max(0, Math.round(number)) };
+            case 'pixelSize':
+                return { pixelSize: Math.max(1, Math.round(number)) };
+            case 'grayscale':
+                return { grayscale: field.checked };
+            case 'sepia':
+                return { sepia: field.checked };
+            case 'invert':
+                return { invert: field.checked };
+            default:
+                return {};
+        }
+    }
+}
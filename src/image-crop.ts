@@ -0,0 +1,215 @@
+// Cropping and masking of placed images. Both are non-destructive: a crop is
+// the Konva.Image crop attrs over the untouched source, and a mask is a hidden
+// shape kept next to the image in a group that clips to it.
+
+import { Rect } from './raster-export.js';
+
+declare const Konva: any;
+
+// Shapes that can clip an image
+const MASK_CLASSES = ['Rect', 'Ellipse', 'Circle', 'Line', 'RegularPolygon', 'Star', 'Path'];
+
+// Smallest crop, in node units, so the box can still be grabbed
+const MIN_CROP_SIZE = 4;
+
+function sourceSize(node: any): { width: number; height: number } {
+    const image = node.image();
+    return {
+        width: (image && (image.naturalWidth || image.width)) || node.width(),
+        height: (image && (image.naturalHeight || image.height)) || node.height()
+    };
+}
+
+// The whole source image in the node's own coordinates; the node shows the
+// part of it between (0, 0) and its width and height
+export function fullImageRect(node: any): Rect {
+    const source = sourceSize(node);
+    const scaleX = node.width() / (node.cropWidth() || source.width);
+    const scaleY = node.height() / (node.cropHeight() || source.height);
+    return {
+        x: -(node.cropX() || 0) * scaleX,
+        y: -(node.cropY() || 0) * scaleY,
+        width: source.width * scaleX,
+        height: source.height * scaleY
+    };
+}
+
+// Attrs that make the node show `rect` (node coordinates) of its source
+// image without moving it on screen. Cropping back to the full image
+// removes the crop attrs.
+export function croppedAttrs(node: any, rect: Rect): Record<string, any> {
+    const full = fullImageRect(node);
+    const source = sourceSize(node);
+    const scaleX = full.width / source.width;
+    const scaleY = full.height / source.height;
+    const position = node.getTransform().point({ x: rect.x + node.offsetX(), y: rect.y + node.offsetY() });
+
+    const crop = {
+        x: (rect.x - full.x) / scaleX,
+        y: (rect.y - full.y) / scaleY,
+        width: rect.width / scaleX,
+        height: rect.height / scaleY
+    };
+    const uncropped = Math.abs(crop.x) < 0.5 && Math.abs(crop.y) < 0.5 &&
+        Math.abs(crop.width - source.width) < 0.5 && Math.abs(crop.height - source.height) < 0.5;
+
+    return {
+        x: position.x,
+        y: position.y,
+        width: rect.width,
+        height: rect.height,
+        cropX: uncropped ? undefined : crop.x,
+        cropY: uncropped ? undefined : crop.y,
+        cropWidth: uncropped ? undefined : crop.width,
+        cropHeight: uncropped ? undefined : crop.height
+    };
+}
+
+// Crop handles over an image: the full source is shown faded behind a box
+// that can be dragged and resized within it. Lives in the overlay layer and
+// works in the image's own (possibly rotated or flipped) coordinates.
+export class CropSession {
+    public readonly node: any;
+    private frame: any;
+    private preview: any;
+    private handles: any;
+    private bounds: Rect;
+
+    constructor(node: any, overlay: any) {
+        this.node = node;
+        this.bounds = fullImageRect(node);
+
+        this.frame = new Konva.Group(node.getAbsoluteTransform(node.getLayer()).decompose());
+        this.frame.add(new Konva.Image({
+            image: node.image(),
+            ...this.bounds,
+            opacity: 0.35,
+            listening: false
+        }));
+        this.preview = new Konva.Image({
+            image: node.image(),
+            width: node.width(),
+            height: node.height(),
+            draggable: true
+        });
+        if (node.cropWidth()) {
+            this.preview.crop(node.crop());
+        }
+        this.frame.add(this.preview);
+
+        this.handles = new Konva.Transformer({
+            nodes: [this.preview],
+            rotateEnabled: false,
+            flipEnabled: false,
+            keepRatio: false,
+            anchorStroke: '#ff8c00',
+            borderStroke: '#ff8c00'
+        });
+
+        this.preview.on('dragmove', () => this.update(true));
+        this.preview.on('transform', () => this.update(false));
+
+        overlay.add(this.frame);
+        overlay.add(this.handles);
+        overlay.batchDraw();
+    }
+
+    // Whether a shape under the pointer is part of the crop handles
+    public contains(target: any): boolean {
+        return target === this.preview || this.handles.isAncestorOf(target);
+    }
+
+    // The crop box in the image's coordinates
+    public rect(): Rect {
+        return {
+            x: this.preview.x(),
+            y: this.preview.y(),
+            width: this.preview.width(),
+            height: this.preview.height()
+        };
+    }
+
+    public destroy(): void {
+        const overlay = this.frame.getLayer();
+        this.handles.destroy();
+        this.frame.destroy();
+        if (overlay) overlay.batchDraw();
+    }
+
+    // Keep the box inside the source image and show the part it covers.
+    // Dragging moves the whole box; resizing trims it at the edges.
+    private update(moving: boolean): void {
+        const b = this.bounds;
+        let x = this.preview.x();
+        let y = this.preview.y();
+        let width = Math.max(MIN_CROP_SIZE, this.preview.width() * this.preview.scaleX());
+        let height = Math.max(MIN_CROP_SIZE, this.preview.height() * this.preview.scaleY());
+
+        if (moving) {
+            x = Math.min(Math.max(x, b.x), b.x + b.width - width);
+            y = Math.min(Math.max(y, b.y), b.y + b.height - height);
+        } else {
+            const right = Math.min(x + width, b.x + b.width);
+            const bottom = Math.min(y + height, b.y + b.height);
+            x = Math.max(x, b.x);
+            y = Math.max(y, b.y);
+            width = Math.max(MIN_CROP_SIZE, right - x);
+            height = Math.max(MIN_CROP_SIZE, bottom - y);
+        }
+
+        const scaleX = b.width / sourceSize(this.node).width;
+        const scaleY = b.height / sourceSize(this.node).height;
+        this.preview.setAttrs({
+            x,
+            y,
+            width,
+            height,
+            scaleX: 1,
+            scaleY: 1,
+            crop: {
+                x: (x - b.x) / scaleX,
+                y: (y - b.y) / scaleY,
+                width: width / scaleX,
+                height: height / scaleY
+            }
+        });
+    }
+}
+
+// An image and a shape to clip it with, if that is what is selected
+export function maskPair(nodes: any[]): { image: any; mask: any } | null {
+    if (nodes.length !== 2) return null;
+
+    const image = nodes.find(node => node.getClassName() === 'Image');
+    const mask = nodes.find(node => node !== image && MASK_CLASSES.indexOf(node.getClassName()) !== -1);
+    return image && mask ? { image, mask } : null;
+}
+
+// The hidden shape a masked group clips to, or null for other nodes
+export function maskShape(node: any): any {
+    if (node.getClassName() !== 'Group') return null;
+    return node.getChildren().find((child: any) => child.getAttr('mask')) || null;
+}
+
+// The image inside a masked group, or the node itself if it is an image
+export function maskedImage(node: any): any {
+    if (node.getClassName() === 'Image') return node;
+    return maskShape(node) ? node.getChildren().find((child: any) => child.getClassName() === 'Image') || null : null;
+}
+
+// Clip function for a masked group: trace the mask shape's outline with its
+// own scene function, but without painting it
+export function maskClipFunc(mask: any): (context: any) => void {
+    return (context: any) => {
+        const tracer = Object.create(context);
+        tracer.fillStrokeShape = () => {};
+        tracer.fillShape = () => {};
+        tracer.strokeShape = () => {};
+
+        const m = mask.getTransform().getMatrix();
+        context.save();
+        context.transform(m[0], m[1], m[2], m[3], m[4], m[5]);
+        mask.getSceneFunc().call(mask, tracer, mask);
+        context.restore();
+    };
+}
@@ -0,0 +1,84 @@
+// Bringing bitmaps in from files, drops and URLs
+
+// Remote images go through the local proxy, since most hosts do not allow cross-origin reads
+const IMAGE_PROXY_URL = 'http://localhost:3000/proxy/image';
+
+export function isImageFile(file: Blob): boolean {
+    return file.type.startsWith('image/');
+}
+
+// A single http(s) URL, e.g. pasted text or a link dragged from another page
+export function imageURL(text: string): string | null {
+    const trimmed = text.trim();
+    return /^https?:\/\/\S+$/i.test(trimmed) ? trimmed : null;
+}
+
+export async function fetchImageViaProxy(url: string): Promise<Blob> {
+    const response = await fetch(`${IMAGE_PROXY_URL}?url=${encodeURIComponent(url)}`);
+    if (!response.ok) {
+        let details = `HTTP ${response.status}`;
+        try {
+            const error = await response.json();
+            details = error.error || details;
+        } catch (e) {
+            // Not JSON, keep the status
+        }
+        throw new Error(details);
+    }
+
+    const blob = await response.blob();
+    if (!isImageFile(blob)) {
+        throw new Error('The URL does not point to an image');
+    }
+    return blob;
+}
+
+// SHA-256 of the bytes, used to share one image element between identical images
+export async function contentHash(blob: Blob): Promise<string> {
+    const buffer = await blob.arrayBuffer();
+    if (window.crypto && window.crypto.subtle) {
+        const digest = await window.crypto.subtle.digest('SHA-256', buffer);
+        return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+    }
+
+    // crypto.subtle is only available on secure origins; FNV-1a is enough to spot duplicates
+    let hash = 0x811c9dc5;
+    const bytes = new Uint8Array(buffer);
+    for (let i = 0; i < bytes.length; i++) {
+        hash ^= bytes[i];
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return `fnv-${hash.toString(16)}-${bytes.length}`;
+}
+
+export function blobToDataURL(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new Error('Failed to read image'));
+        reader.readAsDataURL(blob);
+    });
+}
+
+// Let the user pick image files
+export function chooseImageFiles(): Promise<File[]> {
+    return new Promise(resolve => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = 'image/*';
+        input.multiple = true;
+
+        const finish = () => {
+            window.removeEventListener('focus', onFocus);
+            resolve(Array.from(input.files || []).filter(file => isImageFile(file)));
+        };
+        // Browsers without the cancel event only give the window its focus back;
+        // wait a little, since that can come before the change event
+        const onFocus = () => setTimeout(finish, 500);
+
+        input.addEventListener('change', finish);
+        input.addEventListener('cancel', finish);
+        window.addEventListener('focus', onFocus);
+        input.click();
+    });
+}
@@ -0,0 +1,232 @@
+// User layers and the sidebar panel that manages them.
+// Each user layer is its own Konva.Layer, stacked below the overlay layer
+// that holds the transformer.
+
+declare const Konva: any;
+
+// Konva name shared by every user layer, so helper layers (overlay) are left alone
+export const USER_LAYER_NAME = 'user-layer';
+
+export function createUserLayer(id: string, title: string): any {
+    return new Konva.Layer({
+        id,
+        name: USER_LAYER_NAME,
+        title
+    });
+}
+
+// User layers from bottom to top
+export function userLayers(stage: any): any[] {
+    return stage.getLayers().filter((layer: any) => layer.hasName(USER_LAYER_NAME));
+}
+
+export function layerTitle(layer: any): string {
+    return layer.getAttr('title') || 'Layer';
+}
+
+export function isLayerLocked(layer: any): boolean {
+    return !!layer.getAttr('locked');
+}
+
+// Whether shapes on the layer can be drawn on or selected
+export function isLayerEditable(layer: any): boolean {
+    return !!layer && layer.visible() && !isLayerLocked(layer);
+}
+
+// "Layer N" with N one past the highest number in use
+export function nextLayerTitle(layers: any[]): string {
+    let highest = 0;
+    layers.forEach(layer => {
+        const match = layerTitle(layer).match(/^Layer (\d+)$/);
+        if (match) highest = Math.max(highest, parseInt(match[1], 10));
+    });
+    return `Layer ${highest + 1}`;
+}
+
+export interface LayersPanelActions {
+    layers(): any[]; // bottom to top
+    activeLayer(): any;
+    setActiveLayer(layer: any): void;
+    addLayer(): void;
+    duplicateLayer(layer: any): void;
+    deleteLayer(layer: any): void;
+    renameLayer(layer: any, title: string): void;
+    setLayerVisible(layer: any, visible: boolean): void;
+    setLayerLocked(layer: any, locked: boolean): void;
+    // Live preview while the slider moves, then one commit when it is released
+    previewLayerOpacity(layer: any, opacity: number): void;
+    commitLayerOpacity(layer: any, before: number): void;
+    moveLayer(layer: any, target: any): void;
+    moveSelectionToLayer(layer: any): void;
+}
+
+export class LayersPanel {
+    private actions: LayersPanelActions;
+    private list: HTMLElement | null;
+    private opacityInput: HTMLInputElement | null;
+    private opacityValue: HTMLElement | null;
+    private deleteButton: HTMLButtonElement | null;
+    private draggedLayer: any = null;
+    private opacityBefore: number | null = null;
+
+    constructor(actions: LayersPanelActions) {
+        this.actions = actions;
+        this.list = document.getElementById('layers-list');
+        this.opacityInput = document.getElementById('layer-opacity') as HTMLInputElement;
+        this.opacityValue = document.getElementById('layer-opacity-value');
+        this.deleteButton = document.getElementById('layer-delete') as HTMLButtonElement;
+
+        const addButton = document.getElementById('layer-add');
+        const duplicateButton = document.getElementById('layer-duplicate');
+
+        if (!this.list || !this.opacityInput || !this.opacityValue || !this.deleteButton || !addButton || !duplicateButton) {
+            console.error('Layers panel elements not found');
+            return;
+        }
+
+        addButton.addEventListener('click', () => this.actions.addLayer());
+        duplicateButton.addEventListener('click', () => this.actions.duplicateLayer(this.actions.activeLayer()));
+        this.deleteButton.addEventListener('click', () => this.actions.deleteLayer(this.actions.activeLayer()));
+
+        this.opacityInput.addEventListener('input', () => {
+            const layer = this.actions.activeLayer();
+            if (this.opacityBefore === null) {
+                this.opacityBefore = layer.opacity();
+            }
+            const opacity = parseInt(this.opacityInput!.value, 10) / 100;
+            this.opacityValue!.textContent = `${this.opacityInput!.value}%`;
+            this.actions.previewLayerOpacity(layer, opacity);
+        });
+        this.opacityInput.addEventListener('change', () => {
+            if (this.opacityBefore === null) return;
+            const before = this.opacityBefore;
+            this.opacityBefore = null;
+            this.actions.commitLayerOpacity(this.actions.activeLayer(), before);
+        });
+    }
+
+    // Rebuild the list from the current stage; the top layer is listed first
+    public render(): void {
+        if (!this.list || !this.opacityInput || !this.opacityValue || !this.deleteButton) return;
+
+        const layers = this.actions.layers();
+        const active = this.actions.activeLayer();
+
+        this.list.innerHTML = '';
+        [...layers].reverse().forEach(layer => this.list!.appendChild(this.createRow(layer, layer === active)));
+
+        const percent = Math.round((active ? active.opacity() : 1) * 100);
+        this.opacityInput.value = String(percent);
+        this.opacityValue.textContent = `${percent}%`;
+        this.deleteButton.disabled = layers.length <= 1;
+    }
+
+    private createRow(layer: any, active: boolean): HTMLElement {
+        const row = document.createElement('li');
+        row.className = 'layer-row';
+        row.draggable = true;
+        if (active) row.classList.add('active');
+        if (!layer.visible()) row.classList.add('hidden');
+
+        const visibility = this.createToggle(layer.visible() ? '👁' : '◌',
+            layer.visible() ? 'Hide layer' : 'Show layer',
+            () => this.actions.setLayerVisible(layer, !layer.visible()));
+        row.appendChild(visibility);
+
+        const locked = isLayerLocked(layer);
+        const lock = this.createToggle(locked ? '🔒' : '🔓',
+            locked ? 'Unlock layer' : 'Lock layer',
+            () => this.actions.setLayerLocked(layer, !locked));
+        if (locked) lock.classList.add('on');
+        row.appendChild(lock);
+
+        const name = document.createElement('span');
+        name.className = 'layer-name';
+        name.textContent = layerTitle(layer);
+        name.title = 'Double-click to rename';
+        name.addEventListener('dblclick', (e: MouseEvent) => {
+            e.stopPropagation();
+            this.startRename(layer, name);
+        });
+        row.appendChild(name);
+
+        const moveSelection = this.createToggle('⇥', 'Move selection to this layer',
+            () => this.actions.moveSelectionToLayer(layer));
+        moveSelection.disabled = !isLayerEditable(layer);
+        row.appendChild(moveSelection);
+
+        row.addEventListener('click', () => this.actions.setActiveLayer(layer));
+
+        // Drag and drop to restack layers
+        row.addEventListener('dragstart', (e: DragEvent) => {
+            this.draggedLayer = layer;
+            row.classList.add('dragging');
+            if (e.dataTransfer) {
+                e.dataTransfer.effectAllowed = 'move';
+                e.dataTransfer.setData('text/plain', layer.id());
+            }
+        });
+        row.addEventListener('dragend', () => {
+            this.draggedLayer = null;
+            row.classList.remove('dragging');
+        });
+        row.addEventListener('dragover', (e: DragEvent) => {
+            if (!this.draggedLayer || this.draggedLayer === layer) return;
+            e.preventDefault();
+            row.classList.add('drop-target');
+        });
+        row.addEventListener('dragleave', () => row.classList.remove('drop-target'));
+        row.addEventListener('drop', (e: DragEvent) => {
+            e.preventDefault();
+            row.classList.remove('drop-target');
+            if (this.draggedLayer && this.draggedLayer !== layer) {
+                this.actions.moveLayer(this.draggedLayer, layer);
+            }
+            this.draggedLayer = null;
+        });
+
+        return row;
+    }
+
+    private createToggle(label: string, title: string, handler: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.className = 'layer-toggle';
+        button.textContent = label;
+        button.title = title;
+        button.addEventListener('click', (e: MouseEvent) => {
+            e.stopPropagation();
+            handler();
+        });
+        return button;
+    }
+
+    // Swap the name for an inline input; Enter or blur saves, Escape cancels
+    private startRename(layer: any, name: HTMLElement): void {
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.className = 'layer-name-input';
+        input.value = layerTitle(layer);
+        name.replaceWith(input);
+        input.focus();
+        input.select();
+
+        let done = false;
+        const finish = (save: boolean) => {
+            if (done) return;
+            done = true;
+            const title = input.value.trim();
+            if (save && title && title !== layerTitle(layer)) {
+                this.actions.renameLayer(layer, title);
+            } else {
+                this.render();
+            }
+        };
+
+        input.addEventListener('keydown', (e: KeyboardEvent) => {
+            if (e.key === 'Enter') finish(true);
+            if (e.key === 'Escape') finish(false);
+        });
+        input.addEventListener('blur', () => finish(true));
+        input.addEventListener('click', (e: MouseEvent) => e.stopPropagation());
+    }
+}
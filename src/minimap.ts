@@ -0,0 +1,156 @@
+// Overview of the whole canvas with the visible area outlined.
+// Clicking or dragging in it moves the view there.
+
+import { Rect } from './raster-export.js';
+
+export interface MinimapActions {
+    // Area the minimap covers, in stage coordinates
+    bounds(): Rect;
+    // Part of the canvas currently on screen, in stage coordinates
+    viewport(): Rect;
+    // Layers to preview, bottom to top
+    layers(): any[];
+    // Stage transform that maps stage coordinates to screen pixels
+    stageTransform(): any;
+    stageScale(): number;
+    centerOn(point: { x: number; y: number }): void;
+}
+
+export class Minimap {
+    private actions: MinimapActions;
+    private panel: HTMLElement | null;
+    private canvas: HTMLCanvasElement | null;
+    private viewportBox: HTMLElement | null;
+    private toggleButton: HTMLElement | null;
+    private bounds: Rect = { x: 0, y: 0, width: 1, height: 1 };
+    private scale: number = 1; // Minimap pixels per canvas unit
+    private renderTimer: number | null = null;
+    private readonly SIZE = 200; // Longest side in CSS pixels
+    private readonly RENDER_DELAY = 250; // Batch bursts of changes into one preview render
+
+    constructor(actions: MinimapActions) {
+        this.actions = actions;
+        this.panel = document.getElementById('minimap');
+        this.canvas = document.getElementById('minimap-canvas') as HTMLCanvasElement;
+        this.viewportBox = document.getElementById('minimap-viewport');
+        this.toggleButton = document.getElementById('minimap-toggle');
+
+        if (!this.panel || !this.canvas || !this.viewportBox || !this.toggleButton) {
+            console.error('Minimap elements not found');
+            return;
+        }
+
+        this.toggleButton.addEventListener('click', () => this.setVisible(!this.isVisible()));
+
+        // Jump on press and follow the pointer while it is held down
+        this.panel.addEventListener('pointerdown', (e: PointerEvent) => {
+            e.preventDefault();
+            this.panel!.setPointerCapture(e.pointerId);
+            this.centerOnPointer(e);
+        });
+        this.panel.addEventListener('pointermove', (e: PointerEvent) => {
+            if (this.panel!.hasPointerCapture(e.pointerId)) {
+                this.centerOnPointer(e);
+            }
+        });
+        this.panel.addEventListener('pointerup', (e: PointerEvent) => {
+            this.panel!.releasePointerCapture(e.pointerId);
+        });
+    }
+
+    public isVisible(): boolean {
+        return !!this.panel && this.panel.style.display !== 'none';
+    }
+
+    public setVisible(visible: boolean): void {
+        if (!this.panel || !this.toggleButton) return;
+
+        this.panel.style.display = visible ? 'block' : 'none';
+        this.toggleButton.classList.toggle('active', visible);
+        if (visible) {
+            this.render();
+        }
+    }
+
+    // Re-render the preview soon; called whenever shapes or layers change
+    public scheduleRender(): void {
+        if (!this.isVisible() || this.renderTimer !== null) return;
+
+        this.renderTimer = window.setTimeout(() => {
+            this.renderTimer = null;
+            this.render();
+        }, this.RENDER_DELAY);
+    }
+
+    // Draw every layer scaled down, then the viewport outline
+    public render(): void {
+        if (!this.canvas || !this.isVisible()) return;
+        if (this.renderTimer !== null) {
+            window.clearTimeout(this.renderTimer);
+            this.renderTimer = null;
+        }
+
+        this.bounds = this.actions.bounds();
+        const { width, height } = this.bounds;
+        if (width <= 0 || height <= 0) return;
+
+        // Fit the longest side, keeping the canvas aspect ratio
+        this.scale = this.SIZE / Math.max(width, height);
+        const cssWidth = Math.max(1, Math.round(width * this.scale));
+        const cssHeight = Math.max(1, Math.round(height * this.scale));
+        const ratio = window.devicePixelRatio || 1;
+
+        this.canvas.width = cssWidth * ratio;
+        this.canvas.height = cssHeight * ratio;
+        this.canvas.style.width = `${cssWidth}px`;
+        this.canvas.style.height = `${cssHeight}px`;
+
+        const context = this.canvas.getContext('2d');
+        if (!context) return;
+        context.clearRect(0, 0, this.canvas.width, this.canvas.height);
+
+        // Layers render in screen pixels, so undo the current zoom when scaling down
+        const topLeft = this.actions.stageTransform().point({ x: this.bounds.x, y: this.bounds.y });
+        const stageScale = this.actions.stageScale();
+        const region = {
+            x: topLeft.x,
+            y: topLeft.y,
+            width: width * stageScale,
+            height: height * stageScale,
+            pixelRatio: (this.scale * ratio) / stageScale
+        };
+
+        this.actions.layers().forEach(layer => {
+            if (!layer.visible() || layer.getChildren().length === 0) return;
+            context.drawImage(layer.toCanvas(region), 0, 0, this.canvas!.width, this.canvas!.height);
+        });
+
+        this.renderViewport();
+    }
+
+    // Move the viewport outline; cheap enough to call on every pan or zoom step
+    public renderViewport(): void {
+        if (!this.viewportBox || !this.isVisible()) return;
+
+        const view = this.actions.viewport();
+        // Clip to the minimap so the outline never spills outside it
+        const left = Math.max(view.x, this.bounds.x);
+        const top = Math.max(view.y, this.bounds.y);
+        const right = Math.min(view.x + view.width, this.bounds.x + this.bounds.width);
+        const bottom = Math.min(view.y + view.height, this.bounds.y + this.bounds.height);
+
+        this.viewportBox.style.left = `${(left - this.bounds.x) * this.scale}px`;
+        this.viewportBox.style.top = `${(top - this.bounds.y) * this.scale}px`;
+        this.viewportBox.style.width = `${Math.max(0, right - left) * this.scale}px`;
+        this.viewportBox.style.height = `${Math.max(0, bottom - top) * this.scale}px`;
+    }
+
+    private centerOnPointer(e: PointerEvent): void {
+        if (!this.canvas) return;
+        const box = this.canvas.getBoundingClientRect();
+        this.actions.centerOn({
+            x: this.bounds.x + (e.clientX - box.left) / this.scale,
+            y: this.bounds.y + (e.clientY - box.top) / this.scale
+        });
+    }
+}
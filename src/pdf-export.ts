@@ -0,0 +1,530 @@
+// Multi-page PDF export that draws shapes and text as real PDF vectors
+
+import { PathOp, arrowHeadPathOps, ellipsePathOps, linePathOps, rectPathOps, regularPolygonPathOps, starPathOps, toCubicPathOps, transformPathOps } from './geometry.js';
+import { Rect } from './raster-export.js';
+
+declare const Konva: any;
+
+export type PdfPageSize = 'a4' | 'letter' | 'a3';
+export type PdfOrientation = 'portrait' | 'landscape';
+export type PdfLayout = 'viewport' | 'content' | 'tile' | 'frames';
+
+export interface PdfExportOptions {
+    pageSize: PdfPageSize;
+    orientation: PdfOrientation;
+    margin: number; // millimetres
+    layout: PdfLayout;
+    scale: number; // percent, used when tiling
+    skipEmptyPages: boolean;
+}
+
+// Portrait page sizes in points
+const PAGE_SIZES: Record<PdfPageSize, [number, number]> = {
+    a4: [595.28, 841.89],
+    letter: [612, 792],
+    a3: [841.89, 1190.55]
+};
+
+const MM_TO_PT = 72 / 25.4;
+const PX_TO_PT = 0.75; // 96 CSS pixels per inch
+const RASTER_PIXEL_RATIO = 2;
+
+// Shapes we can express with PDF path operators
+const VECTOR_CLASSES = ['Rect', 'Ellipse', 'Circle', 'Line', 'Arrow', 'RegularPolygon', 'Star', 'Path', 'Text'];
+
+interface PageView {
+    region: Rect;
+    scale: number;
+    x: number;
+    y: number;
+    transform: any; // Konva.Transform from canvas to page coordinates
+}
+
+interface Color {
+    r: number;
+    g: number;
+    b: number;
+    a: number;
+}
+
+function pageDimensions(options: PdfExportOptions): { width: number, height: number } {
+    const [w, h] = PAGE_SIZES[options.pageSize];
+    return options.orientation === 'landscape' ? { width: h, height: w } : { width: w, height: h };
+}
+
+// Printable area of a page in points
+export function contentArea(options: PdfExportOptions): Rect {
+    const page = pageDimensions(options);
+    const margin = Math.max(0, options.margin) * MM_TO_PT;
+    return {
+        x: margin,
+        y: margin,
+        width: Math.max(1, page.width - margin * 2),
+        height: Math.max(1, page.height - margin * 2)
+    };
+}
+
+function tileScale(options: PdfExportOptions): number {
+    return Math.max(1, options.scale) / 100 * PX_TO_PT;
+}
+
+// Split a canvas area into page-sized tiles, left to right then top to bottom
+export function tilePages(bounds: Rect, options: PdfExportOptions): Rect[] {
+    const area = contentArea(options);
+    const scale = tileScale(options);
+    const tileWidth = area.width / scale;
+    const tileHeight = area.height / scale;
+
+    const pages: Rect[] = [];
+    for (let y = bounds.y; y < bounds.y + bounds.height; y += tileHeight) {
+        for (let x = bounds.x; x < bounds.x + bounds.width; x += tileWidth) {
+            pages.push({ x, y, width: tileWidth, height: tileHeight });
+        }
+    }
+    return pages;
+}
+
+function intersects(a: Rect, b: Rect): boolean {
+    return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+}
+
+let colorContext: CanvasRenderingContext2D | null = null;
+
+// Normalize any CSS color through the canvas so named colors work too
+function parseColor(color: any): Color | null {
+    if (typeof color !== 'string' || !color) return null;
+
+    if (!colorContext) {
+        colorContext = document.createElement('canvas').getContext('2d');
+    }
+    if (!colorContext) return null;
+
+    colorContext.fillStyle = '#000000';
+    colorContext.fillStyle = color;
+    const normalized = String(colorContext.fillStyle);
+
+    if (normalized.startsWith('#')) {
+        return {
+            r: parseInt(normalized.substring(1, 3), 16),
+            g: parseInt(normalized.substring(3, 5), 16),
+            b: parseInt(normalized.substring(5, 7), 16),
+            a: 1
+        };
+    }
+
+    const match = normalized.match(/rgba?\(([^)]+)\)/);
+    if (!match) return null;
+    const [r, g, b, a] = match[1].split(',').map(part => parseFloat(part));
+    return { r, g, b, a: isNaN(a) ? 1 : a };
+}
+
+function pdfFont(family: string): string {
+    const name = family.toLowerCase();
+    if (/courier|mono/.test(name)) return 'courier';
+    if (/times|georgia|serif/.test(name) && !/sans/.test(name)) return 'times';
+    return 'helvetica';
+}
+
+function pdfFontStyle(fontStyle: string): string {
+    const bold = fontStyle.indexOf('bold') !== -1;
+    const italic = fontStyle.indexOf('italic') !== -1;
+    if (bold && italic) return 'bolditalic';
+    if (bold) return 'bold';
+    if (italic) return 'italic';
+    return 'normal';
+}
+
+// How much a transform scales lengths such as stroke widths
+function transformScale(transform: any): number {
+    const m: number[] = transform.getMatrix();
+    return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+}
+
+function setOpacity(pdf: any, fill: number, stroke: number): void {
+    pdf.setGState(new pdf.GState({ opacity: fill, 'stroke-opacity': stroke }));
+}
+
+// jsPDF's GState only knows opacities, so the multiply blend (the highlighter)
+// gets a graphics state object of its own, added through the resource events
+// jsPDF's plugins use. Registered once per document.
+const multiplyStates: WeakSet<any> = new WeakSet();
+
+function setMultiplyBlend(pdf: any): void {
+    if (!multiplyStates.has(pdf)) {
+        multiplyStates.add(pdf);
+        let objectNumber = -1;
+        pdf.internal.events.subscribe('putResources', () => {
+            objectNumber = pdf.internal.newObject();
+            pdf.internal.write('<< /Type /ExtGState /BM /Multiply >>');
+            pdf.internal.write('endobj');
+        });
+        pdf.internal.events.subscribe('putGStateDict', () => {
+            pdf.internal.write(`/GSMultiply ${objectNumber} 0 R`);
+        });
+    }
+    pdf.internal.write('/GSMultiply gs');
+}
+
+function paintPath(pdf: any, node: any, ops: PathOp[], filled: boolean, transform: any, dashed: boolean = true): void {
+    const fill = filled && node.fillEnabled() ? parseColor(node.fill()) : null;
+    const stroke = node.strokeEnabled() && node.strokeWidth() > 0 ? parseColor(node.stroke()) : null;
+    if (!fill && !stroke) return;
+
+    const opacity = node.getAbsoluteOpacity();
+    pdf.saveGraphicsState();
+    setOpacity(pdf, opacity * (fill ? fill.a : 1), opacity * (stroke ? stroke.a : 1));
+    if (node.globalCompositeOperation() === 'multiply') {
+        setMultiplyBlend(pdf);
+    }
+
+    if (fill) {
+        pdf.setFillColor(fill.r, fill.g, fill.b);
+    }
+    if (stroke) {
+        const scale = node.strokeScaleEnabled() ? transformScale(transform) : 1;
+        pdf.setDrawColor(stroke.r, stroke.g, stroke.b);
+        pdf.setLineWidth(node.strokeWidth() * scale);
+        pdf.setLineCap(node.lineCap() || 'butt');
+        pdf.setLineJoin(node.lineJoin() || 'miter');
+
+        const dash: number[] | undefined = node.dash();
+        if (dashed && node.dashEnabled() && dash && dash.length) {
+            pdf.setLineDashPattern(dash.map(value => value * scale), 0);
+        }
+    }
+
+    const pageOps = toCubicPathOps(transformPathOps(ops, transform));
+    pdf.path(pageOps.map(({ op, c }) => ({ op: op === 'Z' ? 'h' : op.toLowerCase(), c })));
+
+    if (fill && stroke) {
+        pdf.fillStroke();
+    } else if (fill) {
+        pdf.fill();
+    } else {
+        pdf.stroke();
+    }
+    pdf.restoreGraphicsState();
+}
+
+// Real PDF text so it stays selectable and searchable
+function drawText(pdf: any, node: any, transform: any): void {
+    const fill = parseColor(node.fill());
+    const lines: Array<{ text: string }> = node.textArr || [];
+    if (!fill || lines.length === 0) return;
+
+    const { rotation, scaleX, scaleY } = transform.decompose();
+    const padding = node.padding();
+    const lineHeightPx = node.lineHeight() * node.fontSize();
+    const align: string = node.align();
+
+    let alignY = 0;
+    if (node.verticalAlign() === 'middle') {
+        alignY = (node.height() - lines.length * lineHeightPx - padding * 2) / 2;
+    } else if (node.verticalAlign() === 'bottom') {
+        alignY = node.height() - lines.length * lineHeightPx - padding * 2;
+    }
+
+    pdf.saveGraphicsState();
+    setOpacity(pdf, node.getAbsoluteOpacity() * fill.a, 1);
+    pdf.setFont(pdfFont(node.fontFamily()), pdfFontStyle(node.fontStyle()));
+    pdf.setFontSize(node.fontSize() * Math.abs(scaleY));
+    pdf.setTextColor(fill.r, fill.g, fill.b);
+
+    lines.forEach((line, i) => {
+        if (!line.text) return;
+
+        // Measure with the PDF font so centred and right-aligned text lines up
+        const lineWidth = pdf.getTextWidth(line.text) / Math.abs(scaleX || 1);
+        let x = padding;
+        if (align === 'right') {
+            x = node.width() - padding - lineWidth;
+        } else if (align === 'center') {
+            x = (node.width() - lineWidth) / 2;
+        }
+        const y = padding + alignY + lineHeightPx * (i + 0.5);
+
+        const point = transform.point({ x, y });
+        pdf.text(line.text, point.x, point.y, { baseline: 'middle', angle: -rotation });
+    });
+
+    pdf.restoreGraphicsState();
+}
+
+// Konva.Path stores parsed segments; arcs are not mapped, so those paths are rasterized
+function pathNodeOps(node: any): PathOp[] | null {
+    const ops: PathOp[] = [];
+    for (const segment of node.dataArray as Array<{ command: string, points: number[], start: { x: number, y: number } }>) {
+        switch (segment.command) {
+            case 'M':
+                ops.push({ op: 'M', c: segment.points });
+                break;
+            case 'L':
+                ops.push({ op: 'L', c: segment.points });
+                break;
+            case 'C':
+                ops.push({ op: 'C', c: segment.points });
+                break;
+            case 'Q':
+                ops.push({ op: 'Q', c: segment.points });
+                break;
+            case 'z':
+                ops.push({ op: 'Z', c: [] });
+                break;
+            default:
+                return null;
+        }
+    }
+    return ops;
+}
+
+function drawRaster(pdf: any, node: any, view: PageView): void {
+    const rect = node.getClientRect({ relativeTo: node.getLayer() });
+    if (!rect.width || !rect.height) return;
+
+    const stage = node.getStage();
+    const stageScale = stage ? stage.scaleX() : 1;
+    const dataURL = node.toDataURL({ pixelRatio: RASTER_PIXEL_RATIO / stageScale });
+    const point = view.transform.point({ x: rect.x, y: rect.y });
+    pdf.addImage(dataURL, 'PNG', point.x, point.y, rect.width * view.scale, rect.height * view.scale);
+}
+
+function drawNode(pdf: any, node: any, view: PageView, skip: (node: any) => boolean): void {
+    if (!node.visible() || skip(node)) return;
+
+    const className = node.getClassName();
+    if (className === 'Group') {
+        // A clipped group (a masked image) is embedded as it looks
+        if (node.clipFunc()) {
+            drawRaster(pdf, node, view);
+            return;
+        }
+        node.getChildren().forEach((child: any) => drawNode(pdf, child, view, skip));
+        return;
+    }
+
+    // Filtered (cached) nodes, images and unmapped shapes are embedded as bitmaps
+    if (node.isCached() || VECTOR_CLASSES.indexOf(className) === -1) {
+        drawRaster(pdf, node, view);
+        return;
+    }
+
+    const transform = view.transform.copy().multiply(node.getAbsoluteTransform(node.getLayer()));
+    switch (className) {
+        case 'Rect': {
+            const radius = node.cornerRadius();
+            paintPath(pdf, node, rectPathOps(node.width(), node.height(), typeof radius === 'number' ? radius : 0), true, transform);
+            break;
+        }
+        case 'Ellipse':
+            paintPath(pdf, node, ellipsePathOps(node.radiusX(), node.radiusY()), true, transform);
+            break;
+        case 'Circle':
+            paintPath(pdf, node, ellipsePathOps(node.radius(), node.radius()), true, transform);
+            break;
+        case 'Line':
+            paintPath(pdf, node, linePathOps(node), node.closed(), transform);
+            break;
+        case 'Arrow':
+            paintPath(pdf, node, linePathOps(node), node.closed(), transform);
+            // Heads use the same paint but are never dashed
+            paintPath(pdf, node, arrowHeadPathOps(node), true, transform, false);
+            break;
+        case 'RegularPolygon':
+            paintPath(pdf, node, regularPolygonPathOps(node.sides(), node.radius()), true, transform);
+            break;
+        case 'Star':
+            paintPath(pdf, node, starPathOps(node.numPoints(), node.innerRadius(), node.outerRadius()), true, transform);
+            break;
+        case 'Path': {
+            const ops = pathNodeOps(node);
+            if (ops) {
+                paintPath(pdf, node, ops, true, transform);
+            } else {
+                drawRaster(pdf, node, view);
+            }
+            break;
+        }
+        case 'Text':
+            drawText(pdf, node, transform);
+            break;
+    }
+}
+
+function hasErasers(layer: any): boolean {
+    return layer.find((node: any) => node.globalCompositeOperation() === 'destination-out').length > 0;
+}
+
+// Eraser strokes only work on pixels, so such layers are embedded as a bitmap
+function drawLayerRaster(pdf: any, layer: any, view: PageView, skip: (node: any) => boolean): void {
+    const stage = layer.getStage();
+    const stageScale = stage.scaleX() || 1;
+    const topLeft = stage.getAbsoluteTransform().point({ x: view.region.x, y: view.region.y });
+
+    // Hide what the vector path would skip, such as frames
+    const hidden: any[] = layer.find((node: any) => node.visible() && skip(node));
+    hidden.forEach(node => node.visible(false));
+    try {
+        const dataURL = layer.toDataURL({
+            x: topLeft.x,
+            y: topLeft.y,
+            width: view.region.width * stageScale,
+            height: view.region.height * stageScale,
+            pixelRatio: RASTER_PIXEL_RATIO / stageScale
+        });
+        pdf.addImage(dataURL, 'PNG', view.x, view.y, view.region.width * view.scale, view.region.height * view.scale);
+    } finally {
+        hidden.forEach(node => node.visible(true));
+    }
+}
+
+function regionHasContent(layers: any[], region: Rect, skip: (node: any) => boolean): boolean {
+    return layers.some(layer => layer.visible() && layer.getChildren().some((node: any) =>
+        node.visible() && !skip(node) && intersects(node.getClientRect({ relativeTo: layer }), region)));
+}
+
+// Build a PDF with one page per region (canvas coordinates)
+export function createPdf(layers: any[], regions: Rect[], options: PdfExportOptions, exclude: any[] = [], excludeNames: string[] = []): any {
+    const skip = (node: any) => exclude.includes(node) || excludeNames.some(name => node.hasName(name));
+    const area = contentArea(options);
+
+    const pages = options.skipEmptyPages && regions.length > 1
+        ? regions.filter(region => regionHasContent(layers, region, skip))
+        : regions;
+    if (pages.length === 0) {
+        throw new Error('There is nothing to export');
+    }
+
+    const pdf = new window.jspdf.jsPDF({
+        orientation: options.orientation,
+        unit: 'pt',
+        format: options.pageSize
+    });
+
+    pages.forEach((region, index) => {
+        if (index > 0) {
+            pdf.addPage(options.pageSize, options.orientation);
+        }
+
+        // Tiles keep a fixed scale; single regions are fitted and centred
+        let scale: number;
+        let x = area.x;
+        let y = area.y;
+        if (options.layout === 'tile') {
+            scale = tileScale(options);
+        } else {
+            scale = Math.min(area.width / region.width, area.height / region.height);
+            x += (area.width - region.width * scale) / 2;
+            y += (area.height - region.height * scale) / 2;
+        }
+
+        const view: PageView = {
+            region,
+            scale,
+            x,
+            y,
+            transform: new Konva.Transform().translate(x, y).scale(scale, scale).translate(-region.x, -region.y)
+        };
+
+        // Clip drawing to the printable area
+        pdf.saveGraphicsState();
+        pdf.rect(area.x, area.y, area.width, area.height, null);
+        pdf.clip();
+        pdf.discardPath();
+
+        layers.forEach(layer => {
+            if (!layer.visible()) return;
+            if (hasErasers(layer)) {
+                drawLayerRaster(pdf, layer, view, skip);
+                return;
+            }
+            layer.getChildren().forEach((node: any) => {
+                // Skip anything that does not reach this page
+                if (!node.visible() || skip(node) || !intersects(node.getClientRect({ relativeTo: layer }), region)) return;
+                drawNode(pdf, node, view, skip);
+            });
+        });
+
+        pdf.restoreGraphicsState();
+    });
+
+    return pdf;
+}
+
+// Dialog for choosing PDF page setup
+export class PdfExportDialog {
+    private modal: HTMLElement | null;
+    private onExport: (options: PdfExportOptions) => void;
+
+    constructor(onExport: (options: PdfExportOptions) => void) {
+        this.onExport = onExport;
+        this.modal = document.getElementById('pdf-modal');
+
+        const form = document.getElementById('pdf-form') as HTMLFormElement;
+        const cancelButton = document.getElementById('pdf-cancel');
+
+        if (!this.modal || !form || !cancelButton) {
+            console.error('PDF dialog elements not found');
+            return;
+        }
+
+        form.addEventListener('submit', (e: Event) => {
+            e.preventDefault();
+            const options = this.readOptions(form);
+            this.hide();
+            this.onExport(options);
+        });
+
+        cancelButton.addEventListener('click', () => this.hide());
+
+        // Scale and empty-page skipping only apply to tiling
+        (form.elements.namedItem('layout') as HTMLSelectElement).addEventListener('change', () => this.updateLayoutControls(form));
+
+        this.modal.addEventListener('keydown', (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                this.hide();
+            }
+        });
+    }
+
+    public show(hasFrames: boolean): void {
+        if (!this.modal) return;
+
+        const form = document.getElementById('pdf-form') as HTMLFormElement;
+        const layoutSelect = form.elements.namedItem('layout') as HTMLSelectElement;
+        const framesOption = form.querySelector('option[value="frames"]') as HTMLOptionElement;
+
+        framesOption.disabled = !hasFrames;
+        if (!hasFrames && layoutSelect.value === 'frames') {
+            layoutSelect.value = 'viewport';
+        }
+
+        this.updateLayoutControls(form);
+        this.modal.style.display = 'flex';
+        layoutSelect.focus();
+    }
+
+    public hide(): void {
+        if (this.modal) {
+            this.modal.style.display = 'none';
+        }
+    }
+
+    private updateLayoutControls(form: HTMLFormElement): void {
+        const tiling = (form.elements.namedItem('layout') as HTMLSelectElement).value === 'tile';
+        (form.elements.namedItem('scale') as HTMLInputElement).disabled = !tiling;
+        (form.elements.namedItem('skipEmptyPages') as HTMLInputElement).disabled = !tiling;
+    }
+
+    private readOptions(form: HTMLFormElement): PdfExportOptions {
+        const value = (name: string) => (form.elements.namedItem(name) as HTMLInputElement).value;
+
+        return {
+            pageSize: value('pageSize') as PdfPageSize,
+            orientation: value('orientation') as PdfOrientation,
+            margin: Math.max(0, parseFloat(value('margin')) || 0),
+            layout: value('layout') as PdfLayout,
+            scale: Math.max(1, parseFloat(value('scale')) || 100),
+            skipEmptyPages: (form.elements.namedItem('skipEmptyPages') as HTMLInputElement).checked
+        };
+    }
+}
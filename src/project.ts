@@ -0,0 +1,225 @@
+// Versioned JSON project format for saving and reopening documents
+
+import { CanvasSettings } from './document-setup.js';
+import { Guide } from './grid.js';
+import { USER_LAYER_NAME } from './layers.js';
+
+declare const Konva: any;
+
+export const PROJECT_FORMAT = 'drawcraft-project';
+export const PROJECT_FORMAT_VERSION = 4;
+export const PROJECT_FILE_EXTENSION = '.drawcraft.json';
+
+export interface SerializedNode {
+    className: string;
+    attrs: Record<string, any>;
+    children?: SerializedNode[];
+}
+
+export interface ProjectFile {
+    format: typeof PROJECT_FORMAT;
+    version: number;
+    documentName: string;
+    canvas: CanvasSettings;
+    stage: {
+        x: number;
+        y: number;
+        scale?: number; // Zoom level; missing in files saved before zooming existed
+    };
+    // Konva.Layer nodes from bottom to top, with their shapes as children
+    layers: SerializedNode[];
+    activeLayerId: string | null;
+    // Ruler guides; missing in files saved before guides existed
+    guides?: Guide[];
+    // Embedded images (data URLs) by content hash. Image nodes name theirs in
+    // an imageHash attr, so a picture placed several times is stored once.
+    images: Record<string, string>;
+}
+
+// Each migration upgrades a project from version N to N + 1.
+// When the format changes, bump PROJECT_FORMAT_VERSION and add an entry
+// keyed by the previous version so older files keep opening.
+const migrations: Record<number, (project: any) => any> = {
+    // Version 1 had a fixed background and shape layer; merge them into one user layer
+    1: project => ({
+        ...project,
+        layers: [{
+            className: 'Layer',
+            attrs: { id: 'layer_1', name: USER_LAYER_NAME, title: 'Layer 1' },
+            children: [...project.layers.background, ...project.layers.shapes]
+        }],
+        activeLayerId: 'layer_1'
+    }),
+    // Version 2 only had a fixed artboard size
+    2: project => ({
+        ...project,
+        canvas: { ...project.canvas, mode: 'artboard', background: '#ffffff' }
+    }),
+    // Version 3 embedded a copy of the image in every Image node
+    3: project => ({
+        ...project,
+        images: packImages(project.layers)
+    })
+};
+
+export function migrateProject(project: any): ProjectFile {
+    if (!project || typeof project !== 'object' || project.format !== PROJECT_FORMAT) {
+        throw new Error('Not a project file');
+    }
+
+    let version = typeof project.version === 'number' ? project.version : 0;
+    if (version > PROJECT_FORMAT_VERSION) {
+        throw new Error(`Project was saved by a newer version (format ${version})`);
+    }
+
+    while (version < PROJECT_FORMAT_VERSION) {
+        const migrate = migrations[version];
+        if (!migrate) {
+            throw new Error(`No migration from project format ${version}`);
+        }
+        project = migrate(project);
+        version++;
+        project.version = version;
+    }
+
+    return project as ProjectFile;
+}
+
+export function parseProject(json: string): ProjectFile {
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch (error) {
+        throw new Error('Project file is not valid JSON');
+    }
+    return migrateProject(data);
+}
+
+// Read the data URL behind a Konva.Image so it can be embedded in the file
+function imageSource(node: any): string | null {
+    const stored = node.getAttr('imageSrc');
+    if (stored) return stored;
+
+    const image = node.image();
+    if (!image) return null;
+    if (image.src && image.src.startsWith('data:')) return image.src;
+
+    // Fall back to re-encoding the bitmap (fails for tainted cross-origin images)
+    try {
+        const canvas = document.createElement('canvas');
+        canvas.width = image.naturalWidth || image.width;
+        canvas.height = image.naturalHeight || image.height;
+        canvas.getContext('2d')!.drawImage(image, 0, 0);
+        return canvas.toDataURL('image/png');
+    } catch (error) {
+        console.error('Could not embed image in project:', error);
+        return image.src || null;
+    }
+}
+
+export function serializeNode(node: any): SerializedNode {
+    const obj = node.toObject();
+    const serialized: SerializedNode = {
+        className: obj.className,
+        attrs: obj.attrs
+    };
+
+    if (node.getClassName() === 'Image') {
+        const src = imageSource(node);
+        if (src) {
+            serialized.attrs.imageSrc = src;
+        }
+        // Filter functions are rebuilt from the adjustment attrs when loading
+        delete serialized.attrs.filters;
+    }
+
+    if (typeof node.getChildren === 'function') {
+        serialized.children = node.getChildren().map((child: any) => serializeNode(child));
+    }
+
+    return serialized;
+}
+
+// FNV-1a of the data URL, with its length to make collisions rarer still
+function imageHash(src: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < src.length; i++) {
+        hash ^= src.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return `${hash.toString(16)}-${src.length}`;
+}
+
+function forEachImage(nodes: SerializedNode[], callback: (attrs: Record<string, any>) => void): void {
+    nodes.forEach(node => {
+        if (node.className === 'Image') callback(node.attrs);
+        if (node.children) forEachImage(node.children, callback);
+    });
+}
+
+// Move the images embedded in serialized nodes into a table keyed by hash,
+// leaving each node with a reference to its entry
+export function packImages(nodes: SerializedNode[]): Record<string, string> {
+    const images: Record<string, string> = {};
+    forEachImage(nodes, attrs => {
+        const src = attrs.imageSrc;
+        if (!src) return;
+
+        let hash = imageHash(src);
+        // Different images with the same hash get numbered entries
+        for (let n = 2; images[hash] !== undefined && images[hash] !== src; n++) {
+            hash = `${imageHash(src)}-${n}`;
+        }
+        images[hash] = src;
+        attrs.imageHash = hash;
+        delete attrs.imageSrc;
+    });
+    return images;
+}
+
+// Put the images from the table back into the nodes that reference them
+export function unpackImages(nodes: SerializedNode[], images: Record<string, string>): void {
+    forEachImage(nodes, attrs => {
+        const hash = attrs.imageHash;
+        if (hash === undefined) return;
+
+        if (images[hash]) {
+            attrs.imageSrc = images[hash];
+        } else {
+            console.error(`Image ${hash} is missing from the project`);
+        }
+        delete attrs.imageHash;
+    });
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Failed to load embedded image'));
+        img.src = src;
+    });
+}
+
+// Rebuild Konva nodes, resolving once all embedded images have loaded
+export async function createNodes(serialized: SerializedNode[]): Promise<any[]> {
+    const nodes = serialized.map(data => Konva.Node.create(JSON.parse(JSON.stringify(data))));
+
+    const images: any[] = [];
+    nodes.forEach(node => {
+        if (node.getClassName() === 'Image') images.push(node);
+        if (typeof node.find === 'function') images.push(...node.find('Image'));
+    });
+
+    await Promise.all(images.map(async (imageNode: any) => {
+        const src = imageNode.getAttr('imageSrc');
+        if (!src) return;
+        try {
+            imageNode.image(await loadImage(src));
+        } catch (error) {
+            console.error('Error restoring image:', error);
+        }
+    }));
+
+    return nodes;
+}
@@ -0,0 +1,198 @@
+// Raster image export (PNG, JPEG, WebP) of a region of the stage
+
+declare const Konva: any;
+
+export type RasterFormat = 'png' | 'jpeg' | 'webp';
+export type ExportRegion = 'viewport' | 'selection' | 'content' | 'canvas';
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface RasterExportOptions {
+    format: RasterFormat;
+    region: ExportRegion;
+    pixelRatio: number;
+    transparent: boolean;
+    quality: number; // 0-1, used by JPEG and WebP
+}
+
+export const RASTER_MIME_TYPES: Record<RasterFormat, string> = {
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp'
+};
+
+export const RASTER_EXTENSIONS: Record<RasterFormat, string> = {
+    png: 'png',
+    jpeg: 'jpg',
+    webp: 'webp'
+};
+
+// Bounding box of several rects, or null if there are none
+export function unionRects(rects: Rect[]): Rect | null {
+    const valid = rects.filter(rect => rect.width > 0 || rect.height > 0);
+    if (valid.length === 0) return null;
+
+    const minX = Math.min(...valid.map(r => r.x));
+    const minY = Math.min(...valid.map(r => r.y));
+    const maxX = Math.max(...valid.map(r => r.x + r.width));
+    const maxY = Math.max(...valid.map(r => r.y + r.height));
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+// Bounds of nodes in canvas (layer) coordinates, independent of pan and zoom
+export function nodesBounds(nodes: any[]): Rect | null {
+    return unionRects(nodes
+        .filter(node => node.visible())
+        .map(node => node.getClientRect({ relativeTo: node.getLayer() })));
+}
+
+// Render a region given in canvas coordinates to a data URL.
+// `hiddenNodes` (e.g. the transformer) are hidden for the duration of the render.
+export function renderRegion(stage: any, region: Rect, options: {
+    mimeType: string;
+    pixelRatio: number;
+    quality?: number;
+    background?: string | null;
+    hiddenNodes?: any[];
+}): string {
+    const transform = stage.getAbsoluteTransform();
+    const topLeft = transform.point({ x: region.x, y: region.y });
+    const scale = stage.scaleX() || 1;
+
+    const hidden = (options.hiddenNodes || []).filter(node => node.visible());
+    hidden.forEach(node => node.visible(false));
+
+    // Flat background below everything, e.g. for JPEG which has no alpha
+    let backgroundRect: any = null;
+    // Hidden layers (e.g. the artboard) would hide it too, so use the lowest visible one
+    const layers = stage.getLayers().filter((layer: any) => layer.visible());
+    if (options.background && layers.length > 0) {
+        backgroundRect = new Konva.Rect({
+            x: region.x,
+            y: region.y,
+            width: region.width,
+            height: region.height,
+            fill: options.background,
+            listening: false
+        });
+        layers[0].add(backgroundRect);
+        backgroundRect.moveToBottom();
+    }
+
+    try {
+        return stage.toDataURL({
+            x: topLeft.x,
+            y: topLeft.y,
+            width: region.width * scale,
+            height: region.height * scale,
+            // Keep output at canvas units times the requested ratio at any zoom level
+            pixelRatio: options.pixelRatio / scale,
+            mimeType: options.mimeType,
+            quality: options.quality
+        });
+    } finally {
+        if (backgroundRect) backgroundRect.destroy();
+        hidden.forEach(node => node.visible(true));
+    }
+}
+
+export function downloadDataURL(dataURL: string, filename: string): void {
+    const link = document.createElement('a');
+    link.href = dataURL;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+}
+
+// Dialog for choosing raster export options
+export class RasterExportDialog {
+    private modal: HTMLElement | null;
+    private onExport: (options: RasterExportOptions) => void;
+
+    constructor(onExport: (options: RasterExportOptions) => void) {
+        this.onExport = onExport;
+        this.modal = document.getElementById('export-modal');
+
+        const form = document.getElementById('export-form') as HTMLFormElement;
+        const cancelButton = document.getElementById('export-cancel');
+        const formatSelect = document.getElementById('export-format') as HTMLSelectElement;
+
+        if (!this.modal || !form || !cancelButton || !formatSelect) {
+            console.error('Export dialog elements not found');
+            return;
+        }
+
+        form.addEventListener('submit', (e: Event) => {
+            e.preventDefault();
+            const options = this.readOptions(form);
+            this.hide();
+            this.onExport(options);
+        });
+
+        cancelButton.addEventListener('click', () => this.hide());
+
+        // JPEG cannot be transparent, and PNG has no quality setting
+        formatSelect.addEventListener('change', () => this.updateFormatControls(form));
+
+        this.modal.addEventListener('keydown', (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                this.hide();
+            }
+        });
+    }
+
+    public show(hasSelection: boolean): void {
+        if (!this.modal) return;
+
+        const form = document.getElementById('export-form') as HTMLFormElement;
+        const selectionOption = form.querySelector('option[value="selection"]') as HTMLOptionElement;
+        const regionSelect = form.elements.namedItem('region') as HTMLSelectElement;
+
+        // Selection bounds only make sense when something is selected
+        selectionOption.disabled = !hasSelection;
+        if (!hasSelection && regionSelect.value === 'selection') {
+            regionSelect.value = 'viewport';
+        }
+
+        this.updateFormatControls(form);
+        this.modal.style.display = 'flex';
+        regionSelect.focus();
+    }
+
+    public hide(): void {
+        if (this.modal) {
+            this.modal.style.display = 'none';
+        }
+    }
+
+    private updateFormatControls(form: HTMLFormElement): void {
+        const format = (form.elements.namedItem('format') as HTMLSelectElement).value as RasterFormat;
+        const transparent = form.elements.namedItem('transparent') as HTMLInputElement;
+        const quality = form.elements.namedItem('quality') as HTMLInputElement;
+
+        transparent.disabled = format === 'jpeg';
+        if (format === 'jpeg') {
+            transparent.checked = false;
+        }
+        quality.disabled = format === 'png';
+    }
+
+    private readOptions(form: HTMLFormElement): RasterExportOptions {
+        const value = (name: string) => (form.elements.namedItem(name) as HTMLInputElement).value;
+        const format = value('format') as RasterFormat;
+
+        return {
+            format,
+            region: value('region') as ExportRegion,
+            pixelRatio: Math.max(0.25, parseFloat(value('pixelRatio')) || 1),
+            transparent: format !== 'jpeg' && (form.elements.namedItem('transparent') as HTMLInputElement).checked,
+            quality: Math.min(1, Math.max(0.1, parseInt(value('quality'), 10) / 100))
+        };
+    }
+}
@@ -0,0 +1,84 @@
+// Snapping of points and boxes to the grid, guides and other shapes
+
+import { Rect } from './raster-export.js';
+
+// Positions something can snap to along one axis. `visible` ones get a
+// smart-guide line while snapped; the grid is already on screen and does not.
+export interface SnapTarget {
+    position: number;
+    visible: boolean;
+}
+
+export interface SnapTargets {
+    x: SnapTarget[]; // vertical lines
+    y: SnapTarget[]; // horizontal lines
+    grid: number | null; // grid spacing, or null when not snapping to the grid
+}
+
+export interface SnapResult {
+    dx: number;
+    dy: number;
+    // Smart-guide lines to show for the snap that was made
+    vertical: number[];
+    horizontal: number[];
+}
+
+// Left, centre and right (or top, middle and bottom) of a box
+export function rectEdges(rect: Rect): { x: number[]; y: number[] } {
+    return {
+        x: [rect.x, rect.x + rect.width / 2, rect.x + rect.width],
+        y: [rect.y, rect.y + rect.height / 2, rect.y + rect.height]
+    };
+}
+
+// Edges and centres of the given boxes as snap targets
+export function rectTargets(rects: Rect[]): { x: SnapTarget[]; y: SnapTarget[] } {
+    const x: SnapTarget[] = [];
+    const y: SnapTarget[] = [];
+    rects.forEach(rect => {
+        const edges = rectEdges(rect);
+        edges.x.forEach(position => x.push({ position, visible: true }));
+        edges.y.forEach(position => y.push({ position, visible: true }));
+    });
+    return { x, y };
+}
+
+// Smallest offset (within `threshold`) that lands one of `values` on a target
+function snapAxis(values: number[], targets: SnapTarget[], grid: number | null, threshold: number): { offset: number; lines: number[] } | null {
+    let best: { offset: number; lines: number[] } | null = null;
+
+    const consider = (offset: number, line: number | null) => {
+        if (Math.abs(offset) > threshold) return;
+        if (!best || Math.abs(offset) < Math.abs(best.offset) - 1e-9) {
+            best = { offset, lines: line === null ? [] : [line] };
+        } else if (Math.abs(offset - best.offset) < 1e-9 && line !== null && !best.lines.includes(line)) {
+            // Another target lines up at the same offset, so show its guide too
+            best.lines.push(line);
+        }
+    };
+
+    values.forEach(value => {
+        targets.forEach(target => consider(target.position - value, target.visible ? target.position : null));
+        if (grid) {
+            consider(Math.round(value / grid) * grid - value, null);
+        }
+    });
+    return best;
+}
+
+// Offset that snaps a box's edges or centre to the nearest targets
+export function snapRect(rect: Rect, targets: SnapTargets, threshold: number): SnapResult {
+    const edges = rectEdges(rect);
+    const x = snapAxis(edges.x, targets.x, targets.grid, threshold);
+    const y = snapAxis(edges.y, targets.y, targets.grid, threshold);
+    return {
+        dx: x ? x.offset : 0,
+        dy: y ? y.offset : 0,
+        vertical: x ? x.lines : [],
+        horizontal: y ? y.lines : []
+    };
+}
+
+export function snapPoint(point: { x: number; y: number }, targets: SnapTargets, threshold: number): SnapResult {
+    return snapRect({ x: point.x, y: point.y, width: 0, height: 0 }, targets, threshold);
+}
@@ -0,0 +1,91 @@
+// IndexedDB persistence for autosaved documents
+
+import { ProjectFile } from './project.js';
+import { GeneratedImage } from './types.js';
+
+export interface StoredDocument {
+    id: string;
+    name: string;
+    updatedAt: number;
+    project: ProjectFile;
+    generatedImages: GeneratedImage[];
+    thumbnail?: string | null; // PNG data URL rendered from the stage
+}
+
+// Tracks which document the last session was working on, so a reload can offer to restore it
+export interface SessionState {
+    documentId: string;
+    updatedAt: number;
+}
+
+const DB_NAME = 'drawcraft';
+const DB_VERSION = 1;
+const DOCUMENTS_STORE = 'documents';
+const META_STORE = 'meta';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export class DocumentStore {
+    private db: IDBDatabase | null = null;
+
+    public async open(): Promise<void> {
+        if (this.db) return;
+
+        if (!('indexedDB' in window)) {
+            throw new Error('IndexedDB is not available');
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) {
+                db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(META_STORE)) {
+                db.createObjectStore(META_STORE);
+            }
+        };
+
+        this.db = await requestToPromise(request);
+    }
+
+    public async saveDocument(doc: StoredDocument): Promise<void> {
+        await requestToPromise(this.store(DOCUMENTS_STORE, 'readwrite').put(doc));
+    }
+
+    public async getDocument(id: string): Promise<StoredDocument | null> {
+        const doc = await requestToPromise(this.store(DOCUMENTS_STORE, 'readonly').get(id));
+        return doc || null;
+    }
+
+    public async deleteDocument(id: string): Promise<void> {
+        await requestToPromise(this.store(DOCUMENTS_STORE, 'readwrite').delete(id));
+    }
+
+    // All documents, most recently modified first
+    public async listDocuments(): Promise<StoredDocument[]> {
+        const docs: StoredDocument[] = await requestToPromise(this.store(DOCUMENTS_STORE, 'readonly').getAll());
+        return docs.sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    public async getMeta<T>(key: string): Promise<T | null> {
+        const value = await requestToPromise(this.store(META_STORE, 'readonly').get(key));
+        return value === undefined ? null : value as T;
+    }
+
+    public async setMeta<T>(key: string, value: T): Promise<void> {
+        await requestToPromise(this.store(META_STORE, 'readwrite').put(value, key));
+    }
+
+    private store(name: string, mode: IDBTransactionMode): IDBObjectStore {
+        if (!this.db) {
+            throw new Error('Document store is not open');
+        }
+        return this.db.transaction(name, mode).objectStore(name);
+    }
+}
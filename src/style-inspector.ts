@@ -0,0 +1,262 @@
+// Style model for shapes and the inspector panel that edits the selection
+
+export type DashStyle = 'solid' | 'dashed' | 'dotted' | 'dash-dot';
+
+export interface ShadowStyle {
+    color: string;
+    blur: number;
+    offsetX: number;
+    offsetY: number;
+}
+
+export interface ShapeStyle {
+    fill: string | null;
+    stroke: string | null;
+    strokeWidth: number;
+    dash: DashStyle;
+    opacity: number;
+    lineCap: string;
+    lineJoin: string;
+    shadow: ShadowStyle | null;
+    cornerRadius: number;
+}
+
+// Dash patterns in multiples of the stroke width, so they scale with it
+const DASH_PATTERNS: Record<DashStyle, number[]> = {
+    solid: [],
+    dashed: [4, 3],
+    dotted: [1, 2],
+    'dash-dot': [4, 2, 1, 2]
+};
+
+// Shapes a style applies to; groups are styled through their children
+export function styleTargets(nodes: any[]): any[] {
+    const targets: any[] = [];
+    nodes.forEach(node => {
+        const shapes = node.getClassName() === 'Group' ? node.find('Shape') : [node];
+        shapes.forEach((shape: any) => {
+            // Eraser strokes have no visible style of their own
+            if (shape.globalCompositeOperation() !== 'destination-out') {
+                targets.push(shape);
+            }
+        });
+    });
+    return targets;
+}
+
+export function readStyle(node: any): ShapeStyle {
+    const dash: number[] | undefined = node.dash();
+    const radius = node.getClassName() === 'Rect' ? node.cornerRadius() : 0;
+    const offset = node.shadowOffset();
+
+    return {
+        fill: typeof node.fill() === 'string' && node.fill() ? node.fill() : null,
+        stroke: typeof node.stroke() === 'string' && node.stroke() ? node.stroke() : null,
+        strokeWidth: node.strokeWidth(),
+        dash: node.getAttr('dashStyle') || (dash && dash.length ? 'dashed' : 'solid'),
+        opacity: node.opacity(),
+        lineCap: node.lineCap() || 'butt',
+        lineJoin: node.lineJoin() || 'miter',
+        shadow: node.shadowColor() && node.shadowEnabled() ? {
+            color: node.shadowColor(),
+            blur: node.shadowBlur(),
+            offsetX: offset.x,
+            offsetY: offset.y
+        } : null,
+        cornerRadius: Array.isArray(radius) ? radius[0] : radius
+    };
+}
+
+// Konva attrs for applying (part of) a style to one node. Undefined values
+// remove the attr, which keeps defaults out of saved documents.
+export function styleAttrs(node: any, style: Partial<ShapeStyle>): Record<string, any> {
+    const attrs: Record<string, any> = {};
+    const className = node.getClassName();
+
+    if (style.fill !== undefined) {
+        // Text is drawn with its fill, so it always keeps one
+        if (style.fill !== null || className !== 'Text') {
+            attrs.fill = style.fill || undefined;
+        }
+    }
+    if (style.stroke !== undefined) {
+        attrs.stroke = style.stroke || undefined;
+    }
+    if (style.strokeWidth !== undefined) {
+        attrs.strokeWidth = style.strokeWidth;
+    }
+    if (style.dash !== undefined || style.strokeWidth !== undefined) {
+        const dash: DashStyle = style.dash || node.getAttr('dashStyle') || 'solid';
+        const width = style.strokeWidth !== undefined ? style.strokeWidth : node.strokeWidth();
+        attrs.dashStyle = dash === 'solid' ? undefined : dash;
+        attrs.dash = dash === 'solid' ? undefined : DASH_PATTERNS[dash].map(value => value * Math.max(1, width));
+    }
+    if (style.opacity !== undefined) {
+        attrs.opacity = style.opacity === 1 ? undefined : style.opacity;
+    }
+    if (style.lineCap !== undefined) {
+        attrs.lineCap = style.lineCap === 'butt' ? undefined : style.lineCap;
+    }
+    if (style.lineJoin !== undefined) {
+        attrs.lineJoin = style.lineJoin === 'miter' ? undefined : style.lineJoin;
+    }
+    if (style.shadow !== undefined) {
+        const shadow = style.shadow;
+        attrs.shadowColor = shadow ? shadow.color : undefined;
+        attrs.shadowBlur = shadow ? shadow.blur : undefined;
+        attrs.shadowOffset = shadow ? { x: shadow.offsetX, y: shadow.offsetY } : undefined;
+        attrs.shadowEnabled = undefined;
+    }
+    if (style.cornerRadius !== undefined && className === 'Rect') {
+        attrs.cornerRadius = style.cornerRadius || undefined;
+    }
+
+    return attrs;
+}
+
+export interface StyleInspectorActions {
+    // Live change while an input is being dragged or typed into
+    previewStyle(style: Partial<ShapeStyle>): void;
+    // Record everything previewed since the last commit as one undo step
+    commitStyle(): void;
+    copyStyle(): void;
+    pasteStyle(): void;
+    canPasteStyle(): boolean;
+}
+
+export class StyleInspector {
+    private actions: StyleInspectorActions;
+    private panel: HTMLElement | null;
+    private form: HTMLFormElement | null;
+    private pasteButton: HTMLButtonElement | null;
+
+    constructor(actions: StyleInspectorActions) {
+        this.actions = actions;
+        this.panel = document.getElementById('style-inspector');
+        this.form = document.getElementById('style-form') as HTMLFormElement;
+        this.pasteButton = document.getElementById('style-paste') as HTMLButtonElement;
+
+        const copyButton = document.getElementById('style-copy');
+
+        if (!this.panel || !this.form || !this.pasteButton || !copyButton) {
+            console.error('Style inspector elements not found');
+            return;
+        }
+
+        // Sliders, colors and numbers preview while they move and commit when released
+        this.form.addEventListener('input', (e: Event) => {
+            this.actions.previewStyle(this.readField((e.target as HTMLInputElement).name));
+            this.updateDisabledFields();
+        });
+        this.form.addEventListener('change', () => this.actions.commitStyle());
+        this.form.addEventListener('submit', (e: Event) => e.preventDefault());
+
+        copyButton.addEventListener('click', () => this.actions.copyStyle());
+        this.pasteButton.addEventListener('click', () => this.actions.pasteStyle());
+    }
+
+    // Show the style of the first selected shape, or hide when nothing is selected
+    public render(nodes: any[]): void {
+        if (!this.panel || !this.form || !this.pasteButton) return;
+
+        const targets = styleTargets(nodes);
+        if (targets.length === 0) {
+            this.panel.style.display = 'none';
+            return;
+        }
+
+        const style = readStyle(targets[0]);
+        const field = (name: string) => this.form!.elements.namedItem(name) as HTMLInputElement;
+
+        field('fillEnabled').checked = style.fill !== null;
+        field('fill').value = this.toHex(style.fill, '#ffffff');
+        field('strokeEnabled').checked = style.stroke !== null;
+        field('stroke').value = this.toHex(style.stroke, '#000000');
+        field('strokeWidth').value = String(style.strokeWidth);
+        field('dash').value = style.dash;
+        field('opacity').value = String(Math.round(style.opacity * 100));
+        field('lineCap').value = style.lineCap;
+        field('lineJoin').value = style.lineJoin;
+        field('shadowEnabled').checked = style.shadow !== null;
+        const shadow = style.shadow || { color: '#000000', blur: 10, offsetX: 5, offsetY: 5 };
+        field('shadowColor').value = this.toHex(shadow.color, '#000000');
+        field('shadowBlur').value = String(shadow.blur);
+        field('shadowOffsetX').value = String(shadow.offsetX);
+        field('shadowOffsetY').value = String(shadow.offsetY);
+        field('cornerRadius').value = String(style.cornerRadius);
+
+        // Corner radius only applies to rectangles
+        const hasRect = targets.some(node => node.getClassName() === 'Rect');
+        (this.form.querySelector('.style-corner-radius') as HTMLElement).style.display = hasRect ? '' : 'none';
+
+        this.updateDisabledFields();
+        this.pasteButton.disabled = !this.actions.canPasteStyle();
+        this.panel.style.display = 'block';
+    }
+
+    private updateDisabledFields(): void {
+        const field = (name: string) => this.form!.elements.namedItem(name) as HTMLInputElement;
+        field('fill').disabled = !field('fillEnabled').checked;
+        field('stroke').disabled = !field('strokeEnabled').checked;
+        ['shadowColor', 'shadowBlur', 'shadowOffsetX', 'shadowOffsetY'].forEach(name => {
+            field(name).disabled = !field('shadowEnabled').checked;
+        });
+    }
+
+    // Translate the edited form field into a style change
+    private readField(name: string): Partial<ShapeStyle> {
+        const field = (fieldName: string) => this.form!.elements.namedItem(fieldName) as HTMLInputElement;
+        const number = (fieldName: string) => parseFloat(field(fieldName).value) || 0;
+
+        switch (name) {
+            case 'fillEnabled':
+            case 'fill':
+                return { fill: field('fillEnabled').checked ? field('fill').value : null };
+            case 'strokeEnabled':
+            case 'stroke':
+                return { stroke: field('strokeEnabled').checked ? field('stroke').value : null };
+            case 'strokeWidth':
+                return { strokeWidth: Math.max(0, number('strokeWidth')) };
+            case 'dash':
+                return { dash: field('dash').value as DashStyle };
+            case 'opacity':
+                return { opacity: Math.min(1, Math.max(0, number('opacity') / 100)) };
+            case 'lineCap':
+                return { lineCap: field('lineCap').value };
+            case 'lineJoin':
+                return { lineJoin: field('lineJoin').value };
+            case 'shadowEnabled':
+            case 'shadowColor':
+            case 'shadowBlur':
+            case 'shadowOffsetX':
+            case 'shadowOffsetY':
+                return {
+                    shadow: field('shadowEnabled').checked ? {
+                        color: field('shadowColor').value,
+                        blur: Math.max(0, number('shadowBlur')),
+                        offsetX: number('shadowOffsetX'),
+                        offsetY: number('shadowOffsetY')
+                    } : null
+                };
+            case 'cornerRadius':
+                return { cornerRadius: Math.max(0, number('cornerRadius')) };
+            default:
+                return {};
+        }
+    }
+
+    // Color inputs only accept #rrggbb
+    private toHex(color: string | null, fallback: string): string {
+        if (!color) return fallback;
+        if (/^#[0-9a-f]{6}$/i.test(color)) return color;
+        if (/^#[0-9a-f]{3}$/i.test(color)) {
+            return '#' + color.substring(1).split('').map(c => c + c).join('');
+        }
+
+        const context = document.createElement('canvas').getContext('2d');
+        if (!context) return fallback;
+        context.fillStyle = color;
+        const normalized = String(context.fillStyle);
+        return normalized.startsWith('#') ? normalized : fallback;
+    }
+}
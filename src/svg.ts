@@ -0,0 +1,659 @@
+// Vector SVG export of Konva nodes, and import of SVG back into editable nodes
+
+import { arrowHeadPathOps, linePathOps, pathOpsToSVG, regularPolygonPathOps, starPathOps } from './geometry.js';
+import { Rect } from './raster-export.js';
+
+declare const Konva: any;
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+// Our exports carry the Konva class and attrs so they can be reopened losslessly
+const CLASS_ATTR = 'data-konva-class';
+const ATTRS_ATTR = 'data-konva-attrs';
+const LAYER_ATTR = 'data-konva-layer';
+
+interface ExportContext {
+    doc: XMLDocument;
+    defs: SVGElement;
+    nextId: number;
+    exclude: any[]; // Nodes left out, also inside groups
+}
+
+function fmt(value: number): string {
+    return String(Math.round(value * 100) / 100);
+}
+
+function createElement(ctx: ExportContext, tag: string, attrs: Record<string, string | number | null | undefined> = {}): SVGElement {
+    const el = ctx.doc.createElementNS(SVG_NS, tag) as SVGElement;
+    Object.keys(attrs).forEach(key => {
+        const value = attrs[key];
+        if (value === null || value === undefined || value === '') return;
+        el.setAttribute(key, typeof value === 'number' ? fmt(value) : value);
+    });
+    return el;
+}
+
+// Path data for a Konva.Line, keeping its tension as Bézier curves
+export function linePathData(node: any): string {
+    return pathOpsToSVG(linePathOps(node), fmt);
+}
+
+function transformAttr(node: any): string | null {
+    const m: number[] = node.getTransform().getMatrix();
+    if (m[0] === 1 && m[1] === 0 && m[2] === 0 && m[3] === 1 && m[4] === 0 && m[5] === 0) {
+        return null;
+    }
+    return `matrix(${m.map(fmt).join(' ')})`;
+}
+
+function paintAttrs(node: any, filled: boolean): Record<string, string | number | null> {
+    const stroke = node.strokeEnabled() && node.stroke() && node.strokeWidth() > 0 ? node.stroke() : null;
+    const fill = filled && node.fillEnabled() && node.fill() ? node.fill() : 'none';
+    const dash: number[] | undefined = node.dash();
+
+    return {
+        fill,
+        stroke,
+        'stroke-width': stroke ? node.strokeWidth() : null,
+        'stroke-linecap': stroke && node.lineCap() !== 'butt' ? node.lineCap() : null,
+        'stroke-linejoin': stroke && node.lineJoin() !== 'miter' ? node.lineJoin() : null,
+        'stroke-dasharray': stroke && node.dashEnabled() && dash && dash.length ? dash.map(fmt).join(' ') : null,
+        opacity: node.opacity() !== 1 ? node.opacity() : null
+    };
+}
+
+function tagWithKonvaData(el: SVGElement, node: any): void {
+    const attrs = { ...node.toObject().attrs };
+    // The image data already lives in the href
+    delete attrs.imageSrc;
+    el.setAttribute(CLASS_ATTR, node.getClassName());
+    el.setAttribute(ATTRS_ATTR, JSON.stringify(attrs));
+}
+
+function textElement(ctx: ExportContext, node: any): SVGElement {
+    const padding = node.padding();
+    const fontSize = node.fontSize();
+    const lineHeightPx = node.lineHeight() * fontSize;
+    const fontStyle: string = node.fontStyle();
+    const align: string = node.align();
+    const lines: Array<{ text: string }> = node.textArr || [];
+
+    let anchor = 'start';
+    let x = padding;
+    if (align === 'center') {
+        anchor = 'middle';
+        x = node.width() / 2;
+    } else if (align === 'right') {
+        anchor = 'end';
+        x = node.width() - padding;
+    }
+
+    let alignY = 0;
+    if (node.verticalAlign() === 'middle') {
+        alignY = (node.height() - lines.length * lineHeightPx - padding * 2) / 2;
+    } else if (node.verticalAlign() === 'bottom') {
+        alignY = node.height() - lines.length * lineHeightPx - padding * 2;
+    }
+
+    const text = createElement(ctx, 'text', {
+        ...paintAttrs(node, true),
+        'font-family': node.fontFamily(),
+        'font-size': fontSize,
+        'font-weight': fontStyle.indexOf('bold') !== -1 ? 'bold' : null,
+        'font-style': fontStyle.indexOf('italic') !== -1 ? 'italic' : null,
+        'text-decoration': node.textDecoration() || null,
+        'text-anchor': anchor,
+        'dominant-baseline': 'middle',
+        style: 'white-space: pre'
+    });
+
+    // One tspan per wrapped line so the layout matches the canvas exactly
+    lines.forEach((line, i) => {
+        const tspan = createElement(ctx, 'tspan', {
+            x,
+            y: padding + alignY + lineHeightPx * i + lineHeightPx / 2
+        });
+        tspan.textContent = line.text;
+        text.appendChild(tspan);
+    });
+
+    return text;
+}
+
+function imageElement(ctx: ExportContext, node: any): SVGElement | null {
+    const image = node.image();
+    const href: string | null = node.getAttr('imageSrc') || (image && image.src) || null;
+    if (!href) return null;
+
+    const width = node.width();
+    const height = node.height();
+    const crop = node.crop();
+
+    const imageEl = createElement(ctx, 'image', { preserveAspectRatio: 'none' });
+    imageEl.setAttribute('href', href);
+    imageEl.setAttributeNS(XLINK_NS, 'xlink:href', href);
+
+    if (crop && crop.width && crop.height && image) {
+        // Show only the cropped part of the source, stretched to the node size
+        const frame = createElement(ctx, 'svg', {
+            width,
+            height,
+            viewBox: `${fmt(crop.x)} ${fmt(crop.y)} ${fmt(crop.width)} ${fmt(crop.height)}`,
+            preserveAspectRatio: 'none',
+            opacity: node.opacity() !== 1 ? node.opacity() : null
+        });
+        imageEl.setAttribute('width', fmt(image.naturalWidth || image.width));
+        imageEl.setAttribute('height', fmt(image.naturalHeight || image.height));
+        frame.appendChild(imageEl);
+        return frame;
+    }
+
+    imageEl.setAttribute('width', fmt(width));
+    imageEl.setAttribute('height', fmt(height));
+    if (node.opacity() !== 1) {
+        imageEl.setAttribute('opacity', fmt(node.opacity()));
+    }
+    return imageEl;
+}
+
+// Raster fallback for shapes without a vector mapping. The bitmap already
+// includes the node's transform, so it is placed in parent coordinates.
+function rasterElement(ctx: ExportContext, node: any): SVGElement | null {
+    const rect = node.getClientRect({ relativeTo: node.getParent() });
+    if (!rect.width || !rect.height) return null;
+
+    const href = node.toDataURL({ pixelRatio: 2 });
+    const imageEl = createElement(ctx, 'image', {
+        x: rect.x,
+        y: rect.y,
+        width: rect.width,
+        height: rect.height,
+        preserveAspectRatio: 'none'
+    });
+    imageEl.setAttribute('href', href);
+    return imageEl;
+}
+
+function nodeElement(ctx: ExportContext, node: any): SVGElement | null {
+    let el: SVGElement | null = null;
+    const className = node.getClassName();
+
+    switch (className) {
+        case 'Group': {
+            el = createElement(ctx, 'g', {
+                opacity: node.opacity() !== 1 ? node.opacity() : null
+            });
+            // A masked image clips to its hidden mask shape
+            const mask = node.getChildren().find((child: any) => child.getAttr('mask'));
+            const maskEl = mask ? nodeElement(ctx, mask) : null;
+            if (maskEl) {
+                const clipId = `clip-${ctx.nextId++}`;
+                const clipPath = createElement(ctx, 'clipPath', { id: clipId });
+                clipPath.appendChild(maskEl);
+                ctx.defs.appendChild(clipPath);
+                el.setAttribute('clip-path', `url(#${clipId})`);
+            }
+            appendChildren(ctx, node, el);
+            break;
+        }
+        case 'Rect':
+            el = createElement(ctx, 'rect', {
+                width: node.width(),
+                height: node.height(),
+                rx: typeof node.cornerRadius() === 'number' && node.cornerRadius() > 0 ? node.cornerRadius() : null,
+                ...paintAttrs(node, true)
+            });
+            break;
+        case 'Ellipse':
+            el = createElement(ctx, 'ellipse', {
+                rx: node.radiusX(),
+                ry: node.radiusY(),
+                ...paintAttrs(node, true)
+            });
+            break;
+        case 'Circle':
+            el = createElement(ctx, 'circle', {
+                r: node.radius(),
+                ...paintAttrs(node, true)
+            });
+            break;
+        case 'Line':
+            el = createElement(ctx, 'path', {
+                d: linePathData(node),
+                ...paintAttrs(node, node.closed())
+            });
+            break;
+        case 'Arrow': {
+            // Konva draws the heads with the line's paint but never dashed
+            el = createElement(ctx, 'g');
+            el.appendChild(createElement(ctx, 'path', {
+                d: linePathData(node),
+                ...paintAttrs(node, node.closed())
+            }));
+            const headPaint = paintAttrs(node, true);
+            headPaint['stroke-dasharray'] = null;
+            el.appendChild(createElement(ctx, 'path', {
+                d: pathOpsToSVG(arrowHeadPathOps(node), fmt),
+                ...headPaint
+            }));
+            break;
+        }
+        case 'RegularPolygon':
+            el = createElement(ctx, 'path', {
+                d: pathOpsToSVG(regularPolygonPathOps(node.sides(), node.radius()), fmt),
+                ...paintAttrs(node, true)
+            });
+            break;
+        case 'Star':
+            el = createElement(ctx, 'path', {
+                d: pathOpsToSVG(starPathOps(node.numPoints(), node.innerRadius(), node.outerRadius()), fmt),
+                ...paintAttrs(node, true)
+            });
+            break;
+        case 'Path':
+            el = createElement(ctx, 'path', {
+                d: node.data(),
+                ...paintAttrs(node, true)
+            });
+            break;
+        case 'Text':
+            el = textElement(ctx, node);
+            break;
+        case 'Image':
+            el = imageElement(ctx, node);
+            break;
+        default:
+            el = rasterElement(ctx, node);
+            if (el) {
+                tagWithKonvaData(el, node);
+            }
+            return el;
+    }
+
+    if (!el) return null;
+
+    const transform = transformAttr(node);
+    if (transform) {
+        el.setAttribute('transform', transform);
+    }
+    // Highlighter strokes darken what is underneath
+    if (node.globalCompositeOperation() === 'multiply') {
+        const style = el.getAttribute('style');
+        el.setAttribute('style', `${style ? `${style}; ` : ''}mix-blend-mode: multiply`);
+    }
+    tagWithKonvaData(el, node);
+    return el;
+}
+
+// Append a container's children, turning destination-out strokes (the eraser)
+// into masks over everything drawn before them
+function appendChildren(ctx: ExportContext, container: any, target: SVGElement): void {
+    let items: SVGElement[] = [];
+
+    container.getChildren().forEach((child: any) => {
+        if (!child.visible() || ctx.exclude.includes(child)) return;
+
+        if (child.globalCompositeOperation() === 'destination-out') {
+            const maskId = `erase-${ctx.nextId++}`;
+            const mask = createElement(ctx, 'mask', {
+                id: maskId,
+                maskUnits: 'userSpaceOnUse',
+                x: -100000,
+                y: -100000,
+                width: 200000,
+                height: 200000
+            });
+            mask.appendChild(createElement(ctx, 'rect', {
+                x: -100000,
+                y: -100000,
+                width: 200000,
+                height: 200000,
+                fill: 'white'
+            }));
+
+            const eraser = nodeElement(ctx, child);
+            if (eraser) {
+                eraser.setAttribute('stroke', 'black');
+                mask.appendChild(eraser);
+            }
+            ctx.defs.appendChild(mask);
+
+            const masked = createElement(ctx, 'g', { mask: `url(#${maskId})` });
+            items.forEach(item => masked.appendChild(item));
+            items = [masked];
+            return;
+        }
+
+        const el = nodeElement(ctx, child);
+        if (el) items.push(el);
+    });
+
+    items.forEach(item => target.appendChild(item));
+}
+
+// Serialize layers to an SVG document covering `bounds` (canvas coordinates)
+export function exportSVG(layers: any[], bounds: Rect, exclude: any[] = []): string {
+    const doc = document.implementation.createDocument(SVG_NS, 'svg', null);
+    const svg = doc.documentElement as unknown as SVGElement;
+    const ctx: ExportContext = { doc, defs: doc.createElementNS(SVG_NS, 'defs') as SVGElement, nextId: 1, exclude };
+
+    svg.setAttribute('xmlns:xlink', XLINK_NS);
+    svg.setAttribute('width', fmt(bounds.width));
+    svg.setAttribute('height', fmt(bounds.height));
+    svg.setAttribute('viewBox', `${fmt(bounds.x)} ${fmt(bounds.y)} ${fmt(bounds.width)} ${fmt(bounds.height)}`);
+
+    svg.appendChild(ctx.defs);
+
+    layers.forEach(layer => {
+        if (!layer.visible()) return;
+        const group = createElement(ctx, 'g', {
+            opacity: layer.opacity() !== 1 ? layer.opacity() : null,
+            [LAYER_ATTR]: 'true'
+        });
+        appendChildren(ctx, layer, group);
+        svg.appendChild(group);
+    });
+
+    return new XMLSerializer().serializeToString(doc);
+}
+
+// ---- Import ----
+
+type Style = Record<string, string>;
+
+const STYLE_PROPERTIES = [
+    'fill', 'stroke', 'stroke-width', 'stroke-linecap', 'stroke-linejoin', 'stroke-dasharray',
+    'opacity', 'font-size', 'font-family', 'font-weight', 'font-style'
+];
+
+function readStyle(el: Element, inherited: Style): Style {
+    const style: Style = { ...inherited };
+    // Opacity multiplies through groups rather than inheriting
+    delete style.opacity;
+    STYLE_PROPERTIES.forEach(name => {
+        const inline = (el as SVGElement).style;
+        const value = el.getAttribute(name) || (inline ? inline.getPropertyValue(name) : '');
+        if (value) style[name] = value.trim();
+    });
+    return style;
+}
+
+function num(el: Element, name: string, fallback: number = 0): number {
+    const value = parseFloat(el.getAttribute(name) || '');
+    return isNaN(value) ? fallback : value;
+}
+
+function konvaPaint(style: Style, filled: boolean): Record<string, any> {
+    const attrs: Record<string, any> = {};
+    const fill = style.fill === undefined ? 'black' : style.fill;
+    if (filled && fill !== 'none') attrs.fill = fill;
+    if (style.stroke && style.stroke !== 'none') {
+        attrs.stroke = style.stroke;
+        attrs.strokeWidth = style['stroke-width'] ? parseFloat(style['stroke-width']) : 1;
+    }
+    if (style['stroke-linecap']) attrs.lineCap = style['stroke-linecap'];
+    if (style['stroke-linejoin']) attrs.lineJoin = style['stroke-linejoin'];
+    if (style['stroke-dasharray'] && style['stroke-dasharray'] !== 'none') {
+        attrs.dash = style['stroke-dasharray'].split(/[\s,]+/).map(parseFloat).filter(v => !isNaN(v));
+    }
+    if (style.opacity) attrs.opacity = parseFloat(style.opacity);
+    return attrs;
+}
+
+function parsePoints(value: string | null): number[] {
+    return (value || '').trim().split(/[\s,]+/).map(parseFloat).filter(v => !isNaN(v));
+}
+
+// Konva attrs (x, y, rotation, scale, skew) equivalent to an element's transform attribute
+function transformAttrs(el: Element): Record<string, number> | null {
+    const graphic = el as SVGGraphicsElement;
+    if (!graphic.transform || graphic.transform.baseVal.numberOfItems === 0) return null;
+
+    const matrix = graphic.transform.baseVal.consolidate()!.matrix;
+    const transform = new Konva.Transform([matrix.a, matrix.b, matrix.c, matrix.d, matrix.e, matrix.f]);
+    return transform.decompose();
+}
+
+function imageHref(el: Element): string | null {
+    return el.getAttribute('href') || el.getAttributeNS(XLINK_NS, 'href');
+}
+
+// Rebuild a node we exported ourselves from its embedded Konva attrs
+function importTaggedElement(el: Element): any {
+    const className = el.getAttribute(CLASS_ATTR)!;
+    const attrs = JSON.parse(el.getAttribute(ATTRS_ATTR) || '{}');
+
+    if (className === 'Image') {
+        const imageEl = el.tagName === 'svg' ? el.querySelector('image') : el;
+        const href = imageEl ? imageHref(imageEl) : null;
+        if (href) attrs.imageSrc = href;
+    }
+
+    if (className === 'Group') {
+        const group = new Konva.Group(attrs);
+        importChildren(el, {}).forEach(child => group.add(child));
+        // The hidden mask shape of a masked image lives in its clip path
+        const clipRef = el.getAttribute('clip-path');
+        const clipMatch = clipRef && clipRef.match(/url\(#([^)]+)\)/);
+        const clipPath = clipMatch ? el.ownerDocument.getElementById(clipMatch[1]) : null;
+        const mask = clipPath ? clipPath.querySelector(`[${CLASS_ATTR}]`) : null;
+        if (mask) {
+            group.add(importTaggedElement(mask));
+        }
+        return group;
+    }
+
+    if (!Konva[className]) {
+        // A shape we rasterized on export comes back as an image
+        const href = imageHref(el);
+        return href ? new Konva.Image({
+            x: num(el, 'x'),
+            y: num(el, 'y'),
+            width: num(el, 'width'),
+            height: num(el, 'height'),
+            imageSrc: href,
+            draggable: true,
+            name: 'shape'
+        }) : null;
+    }
+
+    return Konva.Node.create({ className, attrs });
+}
+
+// Build Konva nodes for arbitrary (foreign) SVG elements
+function importForeignElement(el: Element, inherited: Style): any {
+    const style = readStyle(el, inherited);
+    const base = { draggable: true, name: 'shape' };
+    let node: any = null;
+
+    switch (el.tagName) {
+        case 'g':
+        case 'svg': {
+            const children = importChildren(el, style);
+            if (children.length === 0) return null;
+            node = new Konva.Group({ draggable: true, name: 'shape', opacity: style.opacity ? parseFloat(style.opacity) : 1 });
+            children.forEach(child => {
+                child.draggable(false);
+                node.add(child);
+            });
+            break;
+        }
+        case 'rect':
+            node = new Konva.Rect({
+                ...base,
+                ...konvaPaint(style, true),
+                x: num(el, 'x'),
+                y: num(el, 'y'),
+                width: num(el, 'width'),
+                height: num(el, 'height'),
+                cornerRadius: num(el, 'rx')
+            });
+            break;
+        case 'circle':
+            node = new Konva.Circle({
+                ...base,
+                ...konvaPaint(style, true),
+                x: num(el, 'cx'),
+                y: num(el, 'cy'),
+                radius: num(el, 'r')
+            });
+            break;
+        case 'ellipse':
+            node = new Konva.Ellipse({
+                ...base,
+                ...konvaPaint(style, true),
+                x: num(el, 'cx'),
+                y: num(el, 'cy'),
+                radiusX: num(el, 'rx'),
+                radiusY: num(el, 'ry')
+            });
+            break;
+        case 'line':
+            node = new Konva.Line({
+                ...base,
+                ...konvaPaint(style, false),
+                points: [num(el, 'x1'), num(el, 'y1'), num(el, 'x2'), num(el, 'y2')]
+            });
+            break;
+        case 'polyline':
+        case 'polygon':
+            node = new Konva.Line({
+                ...base,
+                ...konvaPaint(style, el.tagName === 'polygon'),
+                points: parsePoints(el.getAttribute('points')),
+                closed: el.tagName === 'polygon'
+            });
+            break;
+        case 'path':
+            node = new Konva.Path({
+                ...base,
+                ...konvaPaint(style, true),
+                data: el.getAttribute('d') || ''
+            });
+            break;
+        case 'text': {
+            const fontSize = style['font-size'] ? parseFloat(style['font-size']) : 16;
+            const fontStyle = [
+                style['font-style'] === 'italic' ? 'italic' : '',
+                style['font-weight'] === 'bold' || parseInt(style['font-weight'], 10) >= 600 ? 'bold' : ''
+            ].filter(Boolean).join(' ');
+            node = new Konva.Text({
+                ...konvaPaint(style, true),
+                x: num(el, 'x'),
+                // SVG positions text by its baseline, Konva by its top edge
+                y: num(el, 'y') - fontSize * 0.8,
+                text: el.textContent || '',
+                fontSize,
+                fontFamily: style['font-family'] || 'Arial',
+                fontStyle: fontStyle || 'normal',
+                draggable: true,
+                name: 'text'
+            });
+            break;
+        }
+        case 'image': {
+            const href = imageHref(el);
+            if (!href) return null;
+            node = new Konva.Image({
+                ...base,
+                x: num(el, 'x'),
+                y: num(el, 'y'),
+                width: num(el, 'width'),
+                height: num(el, 'height'),
+                imageSrc: href
+            });
+            break;
+        }
+        default:
+            return null;
+    }
+
+    // Apply the element's own transform by wrapping it in a group
+    const transform = transformAttrs(el);
+    if (transform && node) {
+        const wrapper = new Konva.Group({ ...transform, draggable: true, name: 'shape' });
+        node.draggable(false);
+        wrapper.add(node);
+        return wrapper;
+    }
+    return node;
+}
+
+function importChildren(parent: Element, inherited: Style): any[] {
+    const nodes: any[] = [];
+
+    Array.from(parent.children).forEach(child => {
+        if (child.tagName === 'defs' || child.tagName === 'mask' || child.tagName === 'title' || child.tagName === 'desc') {
+            return;
+        }
+
+        let node: any = null;
+        if (child.hasAttribute(CLASS_ATTR)) {
+            node = importTaggedElement(child);
+        } else if (child.hasAttribute(LAYER_ATTR) ||
+            (child.tagName === 'g' && !child.hasAttribute('transform') && !child.hasAttribute('opacity'))) {
+            // Layer and eraser-mask wrappers, and other plain groups, are flattened
+            nodes.push(...importChildren(child, readStyle(child, inherited)));
+        } else {
+            node = importForeignElement(child, inherited);
+        }
+        if (node) nodes.push(node);
+
+        // Eraser strokes live inside the mask and are re-applied after the content they erase
+        const maskRef = child.getAttribute('mask');
+        const maskMatch = maskRef && maskRef.match(/url\(#([^)]+)\)/);
+        if (maskMatch) {
+            const mask = parent.ownerDocument.getElementById(maskMatch[1]);
+            if (mask) {
+                Array.from(mask.querySelectorAll(`[${CLASS_ATTR}]`)).forEach(eraser => {
+                    nodes.push(importTaggedElement(eraser));
+                });
+            }
+        }
+    });
+
+    return nodes;
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Failed to load image from SVG'));
+        img.src = src;
+    });
+}
+
+// Parse SVG markup into Konva nodes, resolving once images have loaded
+export async function importSVG(markup: string): Promise<any[]> {
+    const doc = new DOMParser().parseFromString(markup, 'image/svg+xml');
+    const root = doc.documentElement;
+    if (!root || root.tagName !== 'svg' || doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('Not a valid SVG file');
+    }
+
+    const nodes = importChildren(root, {});
+
+    const images: any[] = [];
+    nodes.forEach(node => {
+        if (node.getClassName() === 'Image') images.push(node);
+        if (typeof node.find === 'function') images.push(...node.find('Image'));
+    });
+
+    await Promise.all(images.map(async (imageNode: any) => {
+        const src = imageNode.getAttr('imageSrc');
+        if (!src) return;
+        try {
+            const img = await loadImage(src);
+            imageNode.image(img);
+            if (!imageNode.width() && !imageNode.height()) {
+                imageNode.size({ width: img.naturalWidth, height: img.naturalHeight });
+            }
+        } catch (error) {
+            console.error('Error loading SVG image:', error);
+        }
+    }));
+
+    return nodes;
+}
@@ -0,0 +1,201 @@
+// Numeric position, size and rotation of the selection, and the panel that edits them
+
+declare const Konva: any;
+
+// Selection bounds in layer coordinates. (x, y) is the corner the box extends
+// from along its rotated x and y axes, i.e. the top-left before rotation.
+export interface TransformBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    rotation: number; // degrees
+}
+
+export type FlipAxis = 'horizontal' | 'vertical';
+
+// One node is measured in its own rotated frame; several nodes by their
+// combined axis-aligned bounds
+export function selectionBox(nodes: any[]): TransformBox | null {
+    if (nodes.length === 0) return null;
+
+    if (nodes.length === 1) {
+        const node = nodes[0];
+        const rect = node.getClientRect({ skipTransform: true, skipShadow: true });
+        const scaleX = node.scaleX();
+        const scaleY = node.scaleY();
+        // A flipped node extends from the opposite edge of its local bounds
+        const corner = node.getTransform().point({
+            x: scaleX < 0 ? rect.x + rect.width : rect.x,
+            y: scaleY < 0 ? rect.y + rect.height : rect.y
+        });
+        return {
+            x: corner.x,
+            y: corner.y,
+            width: rect.width * Math.abs(scaleX),
+            height: rect.height * Math.abs(scaleY),
+            rotation: node.rotation()
+        };
+    }
+
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    nodes.forEach(node => {
+        const rect = node.getClientRect({ relativeTo: node.getParent(), skipShadow: true });
+        minX = Math.min(minX, rect.x);
+        minY = Math.min(minY, rect.y);
+        maxX = Math.max(maxX, rect.x + rect.width);
+        maxY = Math.max(maxY, rect.y + rect.height);
+    });
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY, rotation: 0 };
+}
+
+export function boxCenter(box: TransformBox): { x: number; y: number } {
+    const angle = (box.rotation * Math.PI) / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return {
+        x: box.x + (box.width / 2) * cos - (box.height / 2) * sin,
+        y: box.y + (box.width / 2) * sin + (box.height / 2) * cos
+    };
+}
+
+// Transform (in parent coordinates) that maps one box onto another
+export function boxTransform(from: TransformBox, to: TransformBox): any {
+    return new Konva.Transform()
+        .translate(to.x, to.y)
+        .rotate((to.rotation * Math.PI) / 180)
+        .scale(from.width ? to.width / from.width : 1, from.height ? to.height / from.height : 1)
+        .rotate((-from.rotation * Math.PI) / 180)
+        .translate(-from.x, -from.y);
+}
+
+// Mirror across the vertical or horizontal line through a point
+export function flipTransform(axis: FlipAxis, center: { x: number; y: number }): any {
+    return new Konva.Transform()
+        .translate(center.x, center.y)
+        .scale(axis === 'horizontal' ? -1 : 1, axis === 'vertical' ? -1 : 1)
+        .translate(-center.x, -center.y);
+}
+
+// Position, scale, rotation and skew attrs that apply `transform` on top of the
+// node's own, as Konva.Transformer does when fitting nodes into a new box
+export function transformedAttrs(node: any, transform: any): Record<string, any> {
+    return transform.copy()
+        .multiply(node.getTransform())
+        .translate(node.offsetX(), node.offsetY())
+        .decompose();
+}
+
+export interface TransformPanelActions {
+    setTransform(box: TransformBox): void;
+    setAspectLocked(locked: boolean): void;
+    flip(axis: FlipAxis): void;
+}
+
+export class TransformPanel {
+    private actions: TransformPanelActions;
+    private form: HTMLFormElement | null;
+    private flipButtons: HTMLButtonElement[] = [];
+    private box: TransformBox | null = null;
+
+    constructor(actions: TransformPanelActions) {
+        this.actions = actions;
+        this.form = document.getElementById('transform-form') as HTMLFormElement;
+
+        const flipHorizontal = document.getElementById('flip-horizontal') as HTMLButtonElement;
+        const flipVertical = document.getElementById('flip-vertical') as HTMLButtonElement;
+
+        if (!this.form || !flipHorizontal || !flipVertical) {
+            console.error('Transform panel elements not found');
+            return;
+        }
+        this.flipButtons = [flipHorizontal, flipVertical];
+
+        // Numbers apply once typed in (Enter, blur or spinner), not on every keystroke
+        this.form.addEventListener('change', (e: Event) => {
+            const name = (e.target as HTMLInputElement).name;
+            if (name === 'lockAspect') {
+                this.actions.setAspectLocked(this.field('lockAspect').checked);
+            } else {
+                this.applyField(name);
+            }
+        });
+        this.form.addEventListener('submit', (e: Event) => e.preventDefault());
+
+        flipHorizontal.addEventListener('click', () => this.actions.flip('horizontal'));
+        flipVertical.addEventListener('click', () => this.actions.flip('vertical'));
+    }
+
+    public isAspectLocked(): boolean {
+        return !!this.form && this.field('lockAspect').checked;
+    }
+
+    // Show the selection's box; rotation is only editable for a single node
+    public render(box: TransformBox | null, rotatable: boolean): void {
+        if (!this.form) return;
+
+        this.box = box;
+        const round = (value: number) => String(Math.round(value * 10) / 10);
+
+        const fields: (keyof TransformBox)[] = ['x', 'y', 'width', 'height', 'rotation'];
+        fields.forEach(name => {
+            const input = this.field(name);
+            input.disabled = !box || (name === 'rotation' && !rotatable);
+            // Don't overwrite a value that is being typed
+            if (document.activeElement !== input) {
+                input.value = box ? round(box[name]) : '';
+            }
+        });
+        this.flipButtons.forEach(button => {
+            button.disabled = !box;
+        });
+    }
+
+    private applyField(name: string): void {
+        if (!this.box) return;
+
+        const value = parseFloat(this.field(name).value);
+        if (isNaN(value)) {
+            this.render(this.box, !this.field('rotation').disabled);
+            return;
+        }
+
+        const box = { ...this.box };
+        const ratio = box.height ? box.width / box.height : 1;
+        switch (name) {
+            case 'x':
+                box.x = value;
+                break;
+            case 'y':
+                box.y = value;
+                break;
+            case 'width':
+                box.width = Math.max(1, value);
+                if (this.isAspectLocked()) box.height = box.width / ratio;
+                break;
+            case 'height':
+                box.height = Math.max(1, value);
+                if (this.isAspectLocked()) box.width = box.height * ratio;
+                break;
+            case 'rotation': {
+                // Rotate about the centre rather than the corner
+                const center = boxCenter(this.box);
+                box.rotation = value;
+                const moved = boxCenter(box);
+                box.x += center.x - moved.x;
+                box.y += center.y - moved.y;
+                break;
+            }
+            default:
+                return;
+        }
+        this.actions.setTransform(box);
+    }
+
+    private field(name: string): HTMLInputElement {
+        return this.form!.elements.namedItem(name) as HTMLInputElement;
+    }
+}
@@ -0,0 +1,8 @@
+// Shared data types
+
+export interface GeneratedImage {
+    id: string;
+    url: string;
+    width: number;
+    height: number;
+}